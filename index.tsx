@@ -1,33 +1,70 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect } from "react";
 import { createRoot } from "react-dom/client";
 import { GoogleGenAI, Type } from "@google/genai";
-import { Upload, FileText, Download, Loader2, RefreshCw, Scissors, Layers, Box, Info, FileType, Save, Pencil, Table as TableIcon, LayoutList, Link, FileSpreadsheet, AlertCircle } from "lucide-react";
+import { Upload, FileText, Download, Loader2, RefreshCw, Scissors, Layers, Box, Info, FileType, Save, Pencil, Table as TableIcon, LayoutList, Link, FileSpreadsheet, AlertCircle, Tags, Percent, DollarSign, ShoppingBag, Ruler, Sigma, Library, Undo2, Redo2, History, X } from "lucide-react";
+import { Consumption, ConsumptionSettings, GradingSettings, MaterialRule, OrderQuantity, PriceList, ProjectInfo, SavedProject, SheetPart, YieldSettings } from "./src/types";
+import { parseDimensions } from "./src/dimensionParser";
+import { SIZE_CATEGORIES, SIZE_NAMES, SizeCategory, getCategoryPriority } from "./src/sizeCategories";
+import { DEFAULT_ORDER, orderTotal, unitsForCategory } from "./src/orderQuantities";
+import { gradeText, loadGradingSettings, saveGradingSettings, sizeOf } from "./src/sizeGrading";
+import GradingModal, { GradingPiece } from "./src/GradingModal";
+import { findMaterialRule, loadMaterialRules, saveMaterialRules } from "./src/materialRules";
+import { computeConsumption, expressConsumption, formatConsumption, isAreaUnit, loadConsumptionSettings, saveConsumptionSettings, totalConsumption } from "./src/consumption";
+import ConsumptionSettingsModal from "./src/ConsumptionSettingsModal";
+import ProjectLibrary from "./src/ProjectLibrary";
+import { AUTOSAVE_DELAY, getProject, loadOpenProjectIds, saveOpenProjectIds, saveProject, toFile, toStoredFile } from "./src/projectStore";
+import { createProjectFile, projectFileName, readProjectFile, serializeProjectFile, sheetLabelMapping, toSheetParts } from "./src/projectFile";
+import HistoryPanel from "./src/HistoryPanel";
+import { EditHistory, StepInput, emptyHistory, formatHistoryValue, historyShortcut, jumpTo, recordStep, redoStep, undoStep } from "./src/editHistory";
+import MaterialRulesModal from "./src/MaterialRulesModal";
+import { describeYield, loadYieldSettings, saveYieldSettings } from "./src/yieldFactors";
+import YieldSettingsModal from "./src/YieldSettingsModal";
+import { formatMoney, loadPriceList, priceGrossConsumption, savePriceList, summarizeCosts } from "./src/priceList";
+import PriceListModal from "./src/PriceListModal";
+import CostSummaryPanel from "./src/CostSummaryPanel";
 import "./src/index.css";
 
 // --- Types ---
 
-type Part = {
-  name: string;
-  code: string;
-  color: string;
-  material: string;
-  category: string; // DC, FC, HC
-  quantity: string;
-  notes?: string;
-};
+type Part = SheetPart;
 
-type ProjectInfo = {
-  reference: string;
-  collection: string;
-  date: string;
-  totalMolds: string;
+type AnalysisResult = {
+  projectInfo: ProjectInfo;
+  parts: Part[];
 };
 
-type AnalysisResult = {
+type AnalysisError = { title: string, suggestion: string };
+
+type FilePreview = { data: string, mime: string, name: string };
+
+const NO_FILE: FilePreview = { data: "", mime: "", name: "Sin archivo" };
+
+// One ficha of an upload: every reference keeps its own parts, order and undo history
+type SheetReference = {
+  projectId: string | null; // set on the first save to the library
   projectInfo: ProjectInfo;
   parts: Part[];
+  sourceFiles: File[];
+  preview: FilePreview;
+  order: OrderQuantity;
+  history: EditHistory<Part[]>;
 };
 
+const createReference = (
+  fields: Pick<SheetReference, "projectInfo" | "parts"> & Partial<SheetReference>,
+): SheetReference => ({
+  projectId: null,
+  sourceFiles: [],
+  preview: NO_FILE,
+  order: DEFAULT_ORDER,
+  history: emptyHistory(),
+  ...fields,
+});
+
+// Tab name of a reference: its code, or the file it was read from when the ficha has none
+const referenceName = (reference: SheetReference) =>
+  reference.projectInfo.reference || reference.sourceFiles[0]?.name || "Sin referencia";
+
 // --- API Helper ---
 
 const analyzeSheet = async (base64Data: string, mimeType: string): Promise<AnalysisResult> => {
@@ -44,7 +81,7 @@ const analyzeSheet = async (base64Data: string, mimeType: string): Promise<Analy
        - Asigna a cada pieza su TAMAÑO correspondiente: "DC", "FC" o "HC". Si no aplica, déjalo vacío.
     
     4. REGLAS DE AGRUPACIÓN DE MATERIALES:
-       - Agrupa los materiales por tipo: "CUERO 1", "CUERO 2", "FORRO 1", "FORRO 2", "EVA", "CARTON", "ODENA", "SALPA", "REATA", "CREMALLERA".
+       - Agrupa los materiales por tipo: "CUERO 1", "CUERO 2", "FORRO 1", "FORRO 2", "EVA", "CARTON", "ODENA", "SALPA", "REATA", "CREMALLERA", "HERRAJE" (hebillas, argollas, broches, remaches, imanes).
        - NO uses DC/FC/HC como nombre de material. Úsalos solo para el TAMAÑO.
     
     5. DATOS POR PIEZA:
@@ -144,21 +181,32 @@ const analyzeSheet = async (base64Data: string, mimeType: string): Promise<Analy
 
 // --- Helper Functions ---
 
-const calculateConsumption = (part: Part): string => {
-  // Combine fields to search for dimensions
-  const textToSearch = `${part.notes || ""} ${part.quantity || ""}`;
+// Shown instead of a consumption when the notes have a dimension that can't be read
+const DIMENSION_ERROR = "REVISAR MEDIDAS";
 
-  // Regex to find dimensions: Number + optional unit + x/X/* + Number + optional unit
-  // Handles: "200x300", "200 x 300", "200mm x 300mm", "DIM: 200x300"
-  const dimRegex = /(\d+(?:[.,]\d+)?)\s*(?:mm|cm|m)?\s*[xX*]\s*(\d+(?:[.,]\d+)?)/;
-  const match = textToSearch.match(dimRegex);
+// Field names in the history panel
+const SHEET_FIELD_LABELS: Record<keyof Part, string> = {
+  name: "Pieza",
+  code: "Código",
+  color: "Color",
+  material: "Grupo",
+  category: "Tamaño",
+  quantity: "Cantidad",
+  notes: "Notas",
+  grade: "Calidad",
+  gradedFrom: "Talla base",
+};
 
-  if (!match) return "-";
+// Shown instead of a consumption when no material rule matches the code or the material group
+const NO_RULE = "SIN REGLA";
 
-  let width = parseFloat(match[1].replace(',', '.'));
-  let height = parseFloat(match[2].replace(',', '.'));
+// Returns "-" when the part has no dimensions, DIMENSION_ERROR when they can't be read and NO_RULE without a rule
+const measurePart = (part: Part, rules: MaterialRule[], yieldSettings: YieldSettings): Consumption | string => {
+  // 1. The material rule for the code (or the group, e.g. "FORRO 1") picks the billing unit
+  const rule = findMaterialRule(rules, part.code || "", part.material);
+  if (!rule) return NO_RULE;
 
-  // Extract quantity
+  // 2. Extract quantity
   // If quantity field looks like a dimension (e.g. "200x300"), assume qty 1
   // Otherwise look for a standalone number
   let qty = 1;
@@ -169,26 +217,72 @@ const calculateConsumption = (part: Part): string => {
       if (qMatch) qty = parseInt(qMatch[1]);
   }
 
-  if (isNaN(width) || isNaN(height) || isNaN(qty)) return "-";
-
-  // Area in square millimeters
-  const areaMm2 = width * height * qty;
-
-  // 3. Check code for unit selection
-  // If code starts with "1VAQ" -> ft² (pies cuadrados)
-  // Else -> dm² (decímetros cuadrados)
-  const cleanCode = (part.code || "").trim().toUpperCase();
-  const isFt2 = cleanCode.startsWith("1VAQ");
-
-  if (isFt2) {
-    // 1 ft² = 92903.04 mm²
-    const areaFt2 = areaMm2 / 92903.04;
-    return `${areaFt2.toFixed(2)} ft²`;
-  } else {
-    // 1 dm² = 10000 mm²
-    const areaDm2 = areaMm2 / 10000;
-    return `${areaDm2.toFixed(2)} dm²`;
-  }
+  if (isNaN(qty)) return "-";
+
+  // 3. Hardware is counted: no dimensions needed
+  if (rule.unit === "un") return computeConsumption({ unit: rule.unit, width: 0, height: 0, quantity: qty }, yieldSettings);
+
+  // Combine fields to search for dimensions
+  const textToSearch = `${part.notes || ""} ${part.quantity || ""}`;
+
+  // Shared parser: handles "200x300", "23,5 x 15 cm", "9.25\" x 6\"", "DIM: 200x300" and returns mm
+  const dimensions = parseDimensions(textToSearch);
+
+  if (!dimensions) return "-";
+  if (!dimensions.ok) return DIMENSION_ERROR;
+
+  // 4. Shared consumption engine: net in the rule's unit and gross from the family/grade yield
+  const { width, height } = dimensions;
+  return computeConsumption({ unit: rule.unit, width, height, quantity: qty, family: rule.family, grade: part.grade }, yieldSettings);
+};
+
+const calculateConsumption = (part: Part, rules: MaterialRule[], yieldSettings: YieldSettings, settings: ConsumptionSettings): string => {
+  const consumption = measurePart(part, rules, yieldSettings);
+  if (typeof consumption === "string") return consumption;
+  const expressed = expressConsumption(consumption, settings);
+  return formatConsumption(expressed.net, expressed.unit, settings);
+};
+
+// `units` scales the ficha's quantities (one unit of the reference) to an order
+const calculateGrossConsumption = (part: Part, rules: MaterialRule[], yieldSettings: YieldSettings, settings: ConsumptionSettings, units: number = 1): string => {
+  const consumption = measurePart(part, rules, yieldSettings);
+  if (typeof consumption === "string") return consumption;
+  const expressed = expressConsumption(consumption, settings, units);
+  return formatConsumption(expressed.gross, expressed.unit, settings);
+};
+
+// Yield label for a row, e.g. "78%", or "-" when there is no consumption
+const describePartYield = (part: Part, rules: MaterialRule[], yieldSettings: YieldSettings): string => {
+  const consumption = measurePart(part, rules, yieldSettings);
+  return typeof consumption === "string" ? "-" : describeYield(consumption.factor);
+};
+
+// Cost of the unrounded gross consumption, or null when the part has no consumption or no price
+const calculatePartCost = (
+  part: Part,
+  rules: MaterialRule[],
+  yieldSettings: YieldSettings,
+  priceList: PriceList,
+  units: number = 1,
+): number | null => {
+  const consumption = measurePart(part, rules, yieldSettings);
+  if (typeof consumption === "string") return null;
+  return priceGrossConsumption(priceList, part.code || "", part.color || "", consumption, units);
+};
+
+// Gross consumption of a group of parts per unit, e.g. "12.40 m² · 300 un"
+const sumGrossConsumption = (
+  parts: Part[],
+  rules: MaterialRule[],
+  yieldSettings: YieldSettings,
+  settings: ConsumptionSettings,
+  unitsFor: (part: Part) => number,
+): string => {
+  const lines = parts.flatMap((part) => {
+    const consumption = measurePart(part, rules, yieldSettings);
+    return typeof consumption === "string" ? [] : [{ group: "", consumption, units: unitsFor(part) }];
+  });
+  return totalConsumption(lines, settings).map((total) => formatConsumption(total.gross, total.unit, settings)).join(" · ");
 };
 
 const sortMaterials = (a: string, b: string) => {
@@ -212,14 +306,8 @@ const sortParts = (parts: Part[]) => {
     if (matComp !== 0) return matComp;
 
     // 2. Sort by Category (DC > FC > HC)
-    const getCatPriority = (cat: string = "") => {
-      if (cat.includes("DC")) return 1;
-      if (cat.includes("FC")) return 2;
-      if (cat.includes("HC")) return 3;
-      return 4;
-    };
-    const catA = getCatPriority(a.category);
-    const catB = getCatPriority(b.category);
+    const catA = getCategoryPriority(a.category);
+    const catB = getCategoryPriority(b.category);
     if (catA !== catB) return catA - catB;
 
     // 3. Sort by Name
@@ -227,6 +315,99 @@ const sortParts = (parts: Part[]) => {
   });
 };
 
+// Material to buy, matched by code and color across references: each ficha numbers its own groups ("CUERO 1")
+const purchaseKey = (part: Part) => {
+  const code = (part.code || "").trim().toUpperCase();
+  const color = (part.color || "").trim().toUpperCase();
+  return code ? [code, color].filter(Boolean).join(" / ") : `${(part.material || "SIN DEFINIR").toUpperCase().trim()} (sin código)`;
+};
+
+// Identifies a piece of the reference across sizes: the same name may appear in several material groups
+const pieceKey = (part: Part) => `${(part.material || "").toUpperCase().trim()}|${part.name.toUpperCase().trim()}`;
+
+/**
+ * Replaces the graded parts with new ones derived from the base size. Pieces in `scaledKeys` get
+ * their dimension graded (notes first, then the quantity field, like measurePart reads them);
+ * the rest are copied unchanged. A piece the ficha already lists for a size is left as read.
+ */
+const gradeParts = (parts: Part[], settings: GradingSettings, scaledKeys: Set<string>): Part[] => {
+  const fromFicha = parts.filter((p) => !p.gradedFrom);
+  const listed = new Set(fromFicha.map((p) => `${sizeOf(p.category)}|${pieceKey(p)}`));
+  const base = fromFicha.filter((p) => sizeOf(p.category) === settings.baseSize);
+
+  const derived = settings.rules
+    .filter((rule) => rule.size !== settings.baseSize)
+    .flatMap((rule) =>
+      base
+        .filter((part) => !listed.has(`${rule.size}|${pieceKey(part)}`))
+        .map((part): Part => {
+          const graded = { ...part, category: rule.size, gradedFrom: settings.baseSize };
+          if (!scaledKeys.has(pieceKey(part))) return graded;
+          const notes = gradeText(part.notes || "", rule);
+          if (notes !== null) return { ...graded, notes };
+          return { ...graded, quantity: gradeText(part.quantity || "", rule) ?? part.quantity };
+        }),
+    );
+
+  return [...fromFicha, ...derived];
+};
+
+// HTML tables open in every Excel version and keep the columns apart
+const excelDocument = (sheetName: string, body: string) => `
+  <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel" xmlns="http://www.w3.org/TR/REC-html40">
+  <head>
+    <meta http-equiv="content-type" content="text/plain; charset=UTF-8"/>
+    <!--[if gte mso 9]>
+    <xml>
+      <x:ExcelWorkbook>
+        <x:ExcelWorksheets>
+          <x:ExcelWorksheet>
+            <x:Name>${sheetName}</x:Name>
+            <x:WorksheetOptions>
+              <x:DisplayGridlines/>
+            </x:WorksheetOptions>
+          </x:ExcelWorksheet>
+        </x:ExcelWorksheets>
+      </x:ExcelWorkbook>
+    </xml>
+    <![endif]-->
+    <style>
+      body { font-family: Arial, sans-serif; }
+      table { border-collapse: collapse; width: 100%; }
+      th { background-color: #f3f4f6; color: #1f2937; border: 1px solid #9ca3af; padding: 8px; text-align: center; font-weight: bold; }
+      td { border: 1px solid #d1d5db; padding: 8px; vertical-align: top; }
+      .material { font-weight: bold; }
+    </style>
+  </head>
+  <body>
+    ${body}
+  </body>
+  </html>
+`;
+
+const downloadExcelFile = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'application/vnd.ms-excel' });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// analyzeSheet throws its message as JSON; anything else is unexpected
+const readAnalysisError = (err: unknown): AnalysisError => {
+  const message = err instanceof Error ? err.message : "";
+  try {
+    return JSON.parse(message);
+  } catch {
+    return {
+      title: "Error inesperado",
+      suggestion: message || "Ocurrió un error desconocido al procesar el archivo.",
+    };
+  }
+};
+
 const readFileAsBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -240,23 +421,70 @@ const readFileAsBase64 = (file: File): Promise<string> => {
 
 const App = () => {
   // ... (state declarations remain same)
-  const [fileData, setFileData] = useState<{data: string, mime: string, name: string} | null>(null);
+  // Preview shown while the uploaded files are analyzed, before the first reference is ready
+  const [uploadPreview, setUploadPreview] = useState<FilePreview | null>(null);
   const [loading, setLoading] = useState(false);
   const [processedCount, setProcessedCount] = useState(0);
   const [totalFiles, setTotalFiles] = useState(0);
   
-  const [projectInfo, setProjectInfo] = useState<ProjectInfo | null>(null);
-  const [parts, setParts] = useState<Part[]>([]);
+  // One reference per uploaded ficha; null shows all of them consolidated
+  const [references, setReferences] = useState<SheetReference[]>([]);
+  const [activeIndex, setActiveIndex] = useState<number | null>(0);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // What was last written to the library for each project id, so only changed references are saved
+  const savedState = useRef(new Map<string, Pick<SheetReference, "projectInfo" | "parts" | "sourceFiles">>());
   
-  const [error, setError] = useState<{title: string, suggestion: string} | null>(null);
+  const [errors, setErrors] = useState<AnalysisError[]>([]); // one per file that could not be analyzed
   const [activeTab, setActiveTab] = useState<'materials' | 'table'>('table'); // Default to table for overview
+  const [materialRules, setMaterialRules] = useState<MaterialRule[]>(loadMaterialRules);
+  const [isRulesEditorOpen, setIsRulesEditorOpen] = useState(false);
+  const [yieldSettings, setYieldSettings] = useState<YieldSettings>(loadYieldSettings);
+  const [isYieldEditorOpen, setIsYieldEditorOpen] = useState(false);
+  const [priceList, setPriceList] = useState<PriceList>(loadPriceList);
+  const [isPriceEditorOpen, setIsPriceEditorOpen] = useState(false);
+  const [consumptionSettings, setConsumptionSettings] = useState<ConsumptionSettings>(loadConsumptionSettings);
+  const [isConsumptionSettingsOpen, setIsConsumptionSettingsOpen] = useState(false);
+  const [gradingSettings, setGradingSettings] = useState<GradingSettings>(loadGradingSettings);
+  const [isGradingOpen, setIsGradingOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // The reference on screen; the rest of the component reads and edits this one
+  const active = activeIndex !== null ? references[activeIndex] : undefined;
+  const projectInfo = active?.projectInfo ?? null;
+  const parts = active?.parts ?? [];
+  const order = active?.order ?? DEFAULT_ORDER;
+  const history = active?.history ?? emptyHistory<Part[]>();
+  const fileData: FilePreview | null = activeIndex === null && references.length > 0
+    ? { data: "", mime: "", name: `${references.length} referencias` }
+    : active?.preview ?? uploadPreview;
+
+  const updateActive = (changes: Partial<SheetReference>) =>
+    setReferences((prev) => prev.map((reference, i) => (i === activeIndex ? { ...reference, ...changes } : reference)));
+
+  // Adds references as tabs and shows the first one; a project that is already open is only shown
+  // Reads the latest references: the caller may have awaited while others were added (e.g. the ones reopened after a refresh)
+  const addReferences = (added: SheetReference[]) =>
+    setReferences((prev) => {
+      const isOpen = (reference: SheetReference) => reference.projectId !== null && prev.some((r) => r.projectId === reference.projectId);
+      const next = [...prev, ...added.filter((reference) => !isOpen(reference))];
+      setActiveIndex(Math.max(0, next.findIndex((r) => r === added[0] || (added[0].projectId !== null && r.projectId === added[0].projectId))));
+      return next;
+    });
+
+  const closeReference = (index: number) => {
+    if (references.length === 1) return resetApp();
+    setReferences((prev) => prev.filter((_, i) => i !== index));
+    // Consolidating a single reference makes no sense
+    setActiveIndex((prev) => (prev === null ? (references.length === 2 ? 0 : null) : Math.max(0, prev > index ? prev - 1 : Math.min(prev, references.length - 2))));
+  };
+
   const resetApp = () => {
-    setFileData(null);
-    setProjectInfo(null);
-    setParts([]);
-    setError(null);
+    // The references stay in the library; the next upload starts new projects
+    setReferences([]);
+    setActiveIndex(0);
+    setUploadPreview(null);
+    setErrors([]);
     setActiveTab('table');
     setProcessedCount(0);
     setTotalFiles(0);
@@ -265,62 +493,153 @@ const App = () => {
     }
   };
 
+  // Each file is analyzed on its own and becomes its own reference; a file that fails doesn't stop the rest
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
+    const uploaded = [...files];
 
     setLoading(true);
-    setError(null);
-    setProjectInfo(null);
-    setParts([]);
+    setErrors([]);
+    setReferences([]);
+    setActiveIndex(0);
     setProcessedCount(0);
-    setTotalFiles(files.length);
-
-    const allParts: Part[] = [];
-    let firstProjectInfo: ProjectInfo | null = null;
-    let lastFileData: {data: string, mime: string, name: string} | null = null;
+    setTotalFiles(uploaded.length);
+    setUploadPreview({ ...NO_FILE, name: `${uploaded.length} archivo(s)` });
 
-    try {
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
+    for (const file of uploaded) {
+      try {
         const base64 = await readFileAsBase64(file);
-        const base64Data = base64.split(',')[1];
-        const mimeType = file.type;
+        const preview = { data: base64, mime: file.type, name: file.name };
+        // Keep the first file on screen while the rest are analyzed
+        if (file === uploaded[0]) setUploadPreview({ ...preview, name: `${uploaded.length} archivo(s)` });
+        const data = await analyzeSheet(base64.split(',')[1], file.type);
+        setReferences((prev) => [...prev, createReference({ projectInfo: data.projectInfo, parts: data.parts, sourceFiles: [file], preview })]);
+      } catch (err) {
+        console.error(err);
+        const { title, suggestion } = readAnalysisError(err);
+        setErrors((prev) => [...prev, { title: uploaded.length > 1 ? `${file.name}: ${title}` : title, suggestion }]);
+      }
+      setProcessedCount(prev => prev + 1);
+    }
+    setLoading(false);
+  };
 
-        // Keep reference to the first file for display preview
-        if (i === 0) {
-           lastFileData = { data: base64, mime: mimeType, name: `${files.length} archivo(s)` };
-           setFileData(lastFileData);
-        }
+  const openProject = async (project: SavedProject) => {
+    setIsLibraryOpen(false);
+    setErrors([]);
+    addReferences([await referenceFromProject(project)]);
+  };
 
-        const data = await analyzeSheet(base64Data, mimeType);
-        
-        if (!firstProjectInfo) {
-            firstProjectInfo = data.projectInfo;
-        }
-        allParts.push(...data.parts);
-        setProcessedCount(prev => prev + 1);
-      }
+  // Marks an opened project as saved, so opening it doesn't write it back
+  const referenceFromProject = async (project: SavedProject): Promise<SheetReference> => {
+    const files = project.sourceFiles.map(toFile);
+    const reference = createReference({
+      projectId: project.id,
+      projectInfo: project.projectInfo,
+      parts: project.parts as Part[],
+      sourceFiles: files,
+      preview: files.length > 0 ? { data: await readFileAsBase64(files[0]), mime: files[0].type, name: files[0].name } : NO_FILE,
+    });
+    savedState.current.set(project.id, reference);
+    return reference;
+  };
 
-      setProjectInfo(firstProjectInfo);
-      setParts(allParts);
+  // A project file from either app opens as a new reference; its material rules are only taken if the user agrees
+  const importProjectFile = async (file: File): Promise<string[] | null> => {
+    const result = readProjectFile(await file.text());
+    if (result.ok === false) return result.errors;
+    const imported = result.file;
+    if (
+      imported.materialRules.length > 0 &&
+      JSON.stringify(imported.materialRules) !== JSON.stringify(materialRules) &&
+      window.confirm("El archivo trae sus propias reglas de material. ¿Reemplazar las reglas actuales?")
+    ) {
+      setMaterialRules(imported.materialRules);
+      saveMaterialRules(imported.materialRules);
+    }
+    addReferences([createReference({ projectInfo: imported.projectInfo, parts: toSheetParts(imported), order: imported.order })]);
+    setErrors([]);
+    setIsLibraryOpen(false);
+    return null;
+  };
 
-    } catch (err: any) {
-      console.error(err);
-      try {
-        const parsedError = JSON.parse(err.message);
-        setError(parsedError);
-      } catch {
-        setError({ 
-          title: "Error inesperado", 
-          suggestion: err.message || "Ocurrió un error desconocido al procesar el archivo." 
-        });
-      }
-    } finally {
-      setLoading(false);
+  const exportProjectFile = () => {
+    if (!projectInfo) return;
+    const file = createProjectFile({ app: "gemini", projectInfo, parts, labelMapping: sheetLabelMapping(parts), materialRules, order });
+    const blob = new Blob([serializeProjectFile(file)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = projectFileName(projectInfo);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Reopen the references that were open before the page was refreshed
+  useEffect(() => {
+    const ids = loadOpenProjectIds("gemini");
+    if (ids.length === 0) return;
+    Promise.all(ids.map(getProject))
+      .then((projects) => Promise.all(projects.filter((p): p is SavedProject => p !== undefined).map(referenceFromProject)))
+      .then((opened) => {
+        setReferences(opened);
+        setActiveIndex(0);
+      })
+      .catch((err) => console.error("Error opening project:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!loading) saveOpenProjectIds("gemini", references.flatMap((r) => (r.projectId ? [r.projectId] : [])));
+  }, [references.map((r) => r.projectId).join(), loading]);
+
+  // Autosave each reference to IndexedDB once the analysis has finished; references get their id on the first save
+  useEffect(() => {
+    if (loading) return;
+    if (references.some((r) => !r.projectId)) {
+      setReferences((prev) => prev.map((r) => (r.projectId ? r : { ...r, projectId: crypto.randomUUID() })));
+      return;
     }
+    const changed = references.filter((r) => {
+      const saved = savedState.current.get(r.projectId!);
+      return !saved || saved.projectInfo !== r.projectInfo || saved.parts !== r.parts || saved.sourceFiles !== r.sourceFiles;
+    });
+    if (changed.length === 0) return;
+    const timer = setTimeout(() => {
+      for (const reference of changed) {
+        const { projectId, projectInfo, parts, sourceFiles } = reference;
+        savedState.current.set(projectId!, reference);
+        saveProject({ id: projectId!, app: "gemini", projectInfo, parts, sourceFiles: sourceFiles.map(toStoredFile), updatedAt: Date.now() })
+          .catch((err) => console.error("Error saving project:", err));
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [references, loading]);
+
+  // Every change to the parts goes through here so it can be undone; each reference has its own history
+  const commitParts = (next: Part[], step: Omit<StepInput<Part[]>, 'before' | 'after'>) =>
+    updateActive({ parts: next, history: recordStep(history, { ...step, before: parts, after: next }) });
+
+  const restoreHistory = (result: { history: EditHistory<Part[]>; state: Part[] } | null) => {
+    if (!result) return;
+    updateActive({ parts: result.state, history: result.history });
   };
 
+  const undo = () => restoreHistory(undoStep(history));
+  const redo = () => restoreHistory(redoStep(history));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = historyShortcut(e);
+      if (!action) return;
+      e.preventDefault();
+      if (action === 'undo') undo();
+      else redo();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [history, activeIndex]);
+
   const handlePartUpdate = (index: number, field: keyof Part, value: string, propagateToGroup: boolean = false) => {
     const newParts = [...parts];
     const targetPart = newParts[index];
@@ -328,8 +647,8 @@ const App = () => {
     // Update the specific part
     newParts[index] = { ...targetPart, [field]: value };
 
-    // If propagating code or color update (e.g. from first row of a group)
-    if (propagateToGroup && (field === 'code' || field === 'color') && targetPart.material) {
+    // If propagating code, color or grade update (e.g. from first row of a group)
+    if (propagateToGroup && (field === 'code' || field === 'color' || field === 'grade') && targetPart.material) {
       const targetMaterial = targetPart.material;
       // Update all other parts with same material
       for (let i = 0; i < newParts.length; i++) {
@@ -339,54 +658,157 @@ const App = () => {
       }
     }
 
-    setParts(newParts);
+    const propagated = propagateToGroup && newParts.some((p, i) => i !== index && p !== parts[i]);
+    commitParts(newParts, {
+      label: propagated
+        ? `${SHEET_FIELD_LABELS[field]} del grupo ${targetPart.material}`
+        : `${SHEET_FIELD_LABELS[field]} de ${field !== "name" && targetPart.name ? `"${targetPart.name}"` : `la fila ${index + 1}`}`,
+      mergeKey: `${index}:${field}:${propagated}`,
+      describe: (before, after) => {
+        const changed = after.filter((p, i) => p[field] !== before[i]?.[field]).length;
+        return `${formatHistoryValue(before[index]?.[field])} → ${formatHistoryValue(after[index]?.[field])}${changed > 1 ? ` en ${changed} piezas` : ""}`;
+      },
+    });
+  };
+
+  const handleRulesSave = (updated: MaterialRule[]) => {
+    setMaterialRules(updated);
+    saveMaterialRules(updated);
+    setIsRulesEditorOpen(false);
+  };
+
+  const handleYieldSave = (updated: YieldSettings) => {
+    setYieldSettings(updated);
+    saveYieldSettings(updated);
+    setIsYieldEditorOpen(false);
+  };
+
+  const handlePriceListSave = (updated: PriceList) => {
+    setPriceList(updated);
+    savePriceList(updated);
+    setIsPriceEditorOpen(false);
   };
 
+  const handleConsumptionSettingsSave = (updated: ConsumptionSettings) => {
+    setConsumptionSettings(updated);
+    saveConsumptionSettings(updated);
+    setIsConsumptionSettingsOpen(false);
+  };
+
+  // Structured figures for the export: the numbers in their own cells and the unit apart, or the reason there is none
+  const exportConsumption = (part: Part, units: number = 1): { net: number | string; gross: number | string; unit: string } => {
+    const consumption = measurePart(part, materialRules, yieldSettings);
+    return typeof consumption === "string"
+      ? { net: consumption, gross: consumption, unit: "" }
+      : expressConsumption(consumption, consumptionSettings, units);
+  };
+
+  // Gross consumption totals per material group, for one unit or for the whole order
+  const getConsumptionTotals = (forOrder: boolean = false) => totalConsumption(
+    parts.flatMap((part) => {
+      const consumption = measurePart(part, materialRules, yieldSettings);
+      if (typeof consumption === "string") return [];
+      const group = part.material ? part.material.toUpperCase().trim() : "SIN DEFINIR";
+      return [{ group, consumption, units: forOrder ? orderUnits(part) : 1 }];
+    }),
+    consumptionSettings,
+  );
+
+  const handleGenerateSizes = (settings: GradingSettings, scaledKeys: string[]) => {
+    setGradingSettings(settings);
+    saveGradingSettings(settings);
+    const graded = gradeParts(parts, settings, new Set(scaledKeys));
+    commitParts(graded, {
+      label: `Generar tallas desde ${settings.baseSize}`,
+      describe: (before, after) => `${after.filter((p) => p.gradedFrom).length} pieza(s) escaladas (antes ${before.filter((p) => p.gradedFrom).length})`,
+    });
+    setIsGradingOpen(false);
+  };
+
+  // Every ficha piece, for choosing which ones the grading scales
+  const getGradingPieces = (): GradingPiece[] =>
+    parts
+      .filter((part) => !part.gradedFrom)
+      .map((part) => {
+        const consumption = measurePart(part, materialRules, yieldSettings);
+        const measured = typeof consumption !== "string";
+        return {
+          key: pieceKey(part),
+          name: part.name,
+          material: part.material,
+          size: sizeOf(part.category),
+          measurable: parseDimensions(`${part.notes || ""} ${part.quantity || ""}`)?.ok === true,
+          scaleByDefault: measured && isAreaUnit(consumption.unit),
+        };
+      });
+
+  const orderUnits = (part: Part) => unitsForCategory(order, part.category);
+
+  // Material cost per group, only for parts with a consumption; per unit of the reference or for the whole order
+  const getCostSummary = (forOrder: boolean = false, reference: Pick<SheetReference, "parts" | "order"> = { parts, order }) => summarizeCosts(
+    reference.parts
+      .filter((part) => typeof measurePart(part, materialRules, yieldSettings) !== "string")
+      .map((part) => ({
+        group: part.material ? part.material.toUpperCase().trim() : "SIN DEFINIR",
+        cost: calculatePartCost(part, materialRules, yieldSettings, priceList, forOrder ? unitsForCategory(reference.order, part.category) : 1),
+      })),
+  );
+
+  // Gross consumption of every reference's order by purchase material, one column per reference and the total
+  const getConsolidatedTotals = () => {
+    const linesOf = (reference: SheetReference) =>
+      reference.parts.flatMap((part) => {
+        const consumption = measurePart(part, materialRules, yieldSettings);
+        return typeof consumption === "string" ? [] : [{ group: purchaseKey(part), consumption, units: unitsForCategory(reference.order, part.category) }];
+      });
+    // Material groups each purchase material was listed under, e.g. "CUERO 1" in one ficha and "CUERO 2" in another
+    const groups = new Map<string, Set<string>>();
+    for (const part of references.flatMap((r) => r.parts)) {
+      const listed = groups.get(purchaseKey(part)) ?? new Set<string>();
+      if (part.material) listed.add(part.material.toUpperCase().trim());
+      groups.set(purchaseKey(part), listed);
+    }
+    return {
+      totals: totalConsumption(references.flatMap(linesOf), consumptionSettings),
+      byReference: references.map((reference) => totalConsumption(linesOf(reference), consumptionSettings)),
+      groupsOf: (key: string) => [...(groups.get(key) ?? [])].sort(sortMaterials).join(", "),
+      costs: references.map((reference) => getCostSummary(true, reference).total),
+    };
+  };
+
+  const updateOrder = (updates: Partial<OrderQuantity>) => updateActive({ order: { ...order, ...updates } });
+
   const downloadExcel = () => {
     if (!projectInfo) return;
+    const costSummary = getCostSummary();
+    const orderCostSummary = getCostSummary(true);
+    const consumptionTotals = getConsumptionTotals();
+    const orderConsumptionTotals = getConsumptionTotals(true);
     
     // Sort parts for Excel export
     const sortedParts = sortParts(parts);
     
     // Construct HTML Table for Excel (Works with all Excel versions and separates columns reliably)
-    const tableContent = `
-      <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel" xmlns="http://www.w3.org/TR/REC-html40">
-      <head>
-        <meta http-equiv="content-type" content="text/plain; charset=UTF-8"/>
-        <!--[if gte mso 9]>
-        <xml>
-          <x:ExcelWorkbook>
-            <x:ExcelWorksheets>
-              <x:ExcelWorksheet>
-                <x:Name>Orden de Producción</x:Name>
-                <x:WorksheetOptions>
-                  <x:DisplayGridlines/>
-                </x:WorksheetOptions>
-              </x:ExcelWorksheet>
-            </x:ExcelWorksheets>
-          </x:ExcelWorkbook>
-        </xml>
-        <![endif]-->
-        <style>
-          body { font-family: Arial, sans-serif; }
-          table { border-collapse: collapse; width: 100%; }
-          th { background-color: #f3f4f6; color: #1f2937; border: 1px solid #9ca3af; padding: 8px; text-align: center; font-weight: bold; }
-          td { border: 1px solid #d1d5db; padding: 8px; vertical-align: top; }
-          .material { font-weight: bold; }
-        </style>
-      </head>
-      <body>
+    const tableContent = excelDocument("Orden de Producción", `
         <table>
           <thead>
             <tr>
               <th style="width: 150px">Grupo Material</th>
               <th style="width: 100px">Tamaño</th>
+              <th style="width: 120px">Origen</th>
               <th style="width: 200px">Pieza</th>
               <th style="width: 200px">Notas</th>
               <th style="width: 120px">Código Material</th>
               <th style="width: 120px">Color</th>
               <th style="width: 100px">Cantidad</th>
               <th style="width: 120px">Consumo</th>
+              <th style="width: 120px">Consumo Bruto</th>
+              <th style="width: 80px">Unidad</th>
+              <th style="width: 100px">Rendimiento</th>
+              <th style="width: 120px">Costo (${priceList.currency})</th>
+              <th style="width: 100px">Unidades Pedido</th>
+              <th style="width: 120px">Consumo Bruto Pedido</th>
+              <th style="width: 120px">Costo Pedido (${priceList.currency})</th>
               <th style="width: 150px">Referencia Proyecto</th>
               <th style="width: 150px">Colección</th>
             </tr>
@@ -396,29 +818,114 @@ const App = () => {
               <tr>
                 <td class="material">${part.material?.toUpperCase() || ''}</td>
                 <td>${part.category || ''}</td>
+                <td>${part.gradedFrom ? `Escalada de ${part.gradedFrom}` : 'Ficha'}</td>
                 <td>${part.name}</td>
                 <td>${part.notes || ''}</td>
                 <td style="mso-number-format:'\\@'">${part.code || ''}</td> <!-- Force text format for codes -->
                 <td style="mso-number-format:'\\@'">${part.color || ''}</td> <!-- Force text format for colors (prevents 001 -> 1) -->
                 <td>${part.quantity}</td>
-                <td>${calculateConsumption(part)}</td>
+                <td>${exportConsumption(part).net}</td>
+                <td>${exportConsumption(part).gross}</td>
+                <td>${exportConsumption(part).unit}</td>
+                <td>${describePartYield(part, materialRules, yieldSettings)}</td>
+                <td>${calculatePartCost(part, materialRules, yieldSettings, priceList)?.toFixed(2) ?? ''}</td>
+                <td>${orderUnits(part)}</td>
+                <td>${exportConsumption(part, orderUnits(part)).gross}</td>
+                <td>${calculatePartCost(part, materialRules, yieldSettings, priceList, orderUnits(part))?.toFixed(2) ?? ''}</td>
                 <td>${projectInfo.reference}</td>
                 <td>${projectInfo.collection}</td>
               </tr>
             `).join('')}
           </tbody>
         </table>
-      </body>
-      </html>
-    `;
+        <br/>
+        <table>
+          <thead>
+            <tr>
+              <th style="width: 150px">Consumo por Grupo</th>
+              <th style="width: 120px">Consumo Bruto Unidad</th>
+              <th style="width: 120px">Consumo Bruto Pedido ${orderTotal(order)} u.</th>
+              <th style="width: 80px">Unidad</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${consumptionTotals.map(total => `
+              <tr>
+                <td class="material">${total.group}</td>
+                <td>${total.gross}</td>
+                <td>${orderConsumptionTotals.find(t => t.group === total.group && t.unit === total.unit)?.gross ?? ''}</td>
+                <td>${total.unit}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <br/>
+        <table>
+          <thead>
+            <tr>
+              <th style="width: 150px">Costo de Materiales</th>
+              <th style="width: 120px">Costo Unidad (${priceList.currency})</th>
+              <th style="width: 120px">Costo Pedido ${orderTotal(order)} u. (${priceList.currency})</th>
+              <th style="width: 200px">Observación</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${costSummary.groups.map(group => `
+              <tr>
+                <td class="material">${group.group}</td>
+                <td>${group.cost.toFixed(2)}</td>
+                <td>${orderCostSummary.groups.find(g => g.group === group.group)?.cost.toFixed(2) ?? ''}</td>
+                <td>${group.unpriced > 0 ? `${group.unpriced} pieza(s) sin precio` : ''}</td>
+              </tr>
+            `).join('')}
+            <tr>
+              <td class="material">TOTAL ${projectInfo.reference || ''}</td>
+              <td class="material">${costSummary.total.toFixed(2)}</td>
+              <td class="material">${orderCostSummary.total.toFixed(2)}</td>
+              <td></td>
+            </tr>
+          </tbody>
+        </table>
+    `);
 
-    const blob = new Blob([tableContent], { type: 'application/vnd.ms-excel' });
-    const link = document.createElement("a");
-    link.href = URL.createObjectURL(blob);
-    link.download = `Orden_${projectInfo.reference || 'Produccion'}.xls`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadExcelFile(tableContent, `Orden_${projectInfo.reference || 'Produccion'}.xls`);
+  };
+
+  const downloadConsolidatedExcel = () => {
+    const { totals, byReference, groupsOf, costs } = getConsolidatedTotals();
+    const tableContent = excelDocument("Consolidado", `
+        <table>
+          <thead>
+            <tr>
+              <th style="width: 180px">Material (Código / Color)</th>
+              <th style="width: 150px">Grupos</th>
+              ${references.map((reference) => `<th style="width: 120px">${referenceName(reference)} (${orderTotal(reference.order)} u.)</th>`).join('')}
+              <th style="width: 120px">Total Consumo Bruto</th>
+              <th style="width: 80px">Unidad</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${totals.map(total => `
+              <tr>
+                <td class="material" style="mso-number-format:'\\@'">${total.group}</td>
+                <td>${groupsOf(total.group)}</td>
+                ${byReference.map((reference) => `<td>${reference.find(t => t.group === total.group && t.unit === total.unit)?.gross ?? ''}</td>`).join('')}
+                <td class="material">${total.gross}</td>
+                <td>${total.unit}</td>
+              </tr>
+            `).join('')}
+            <tr>
+              <td class="material">COSTO PEDIDO (${priceList.currency})</td>
+              <td></td>
+              ${costs.map((cost) => `<td class="material">${cost.toFixed(2)}</td>`).join('')}
+              <td class="material">${costs.reduce((sum, cost) => sum + cost, 0).toFixed(2)}</td>
+              <td></td>
+            </tr>
+          </tbody>
+        </table>
+    `);
+
+    downloadExcelFile(tableContent, `Consolidado_${references.map(referenceName).join('_')}.xls`);
   };
 
   // Helper to group data dynamically for rendering
@@ -439,15 +946,7 @@ const App = () => {
 
     // Sort items within each group by Category (DC > FC > HC)
     Object.keys(grouped).forEach(key => {
-        grouped[key].sort((a, b) => {
-            const getCatPriority = (cat: string = "") => {
-                if (cat.includes("DC")) return 1;
-                if (cat.includes("FC")) return 2;
-                if (cat.includes("HC")) return 3;
-                return 4;
-            };
-            return getCatPriority(a.part.category) - getCatPriority(b.part.category);
-        });
+        grouped[key].sort((a, b) => getCategoryPriority(a.part.category) - getCategoryPriority(b.part.category));
     });
 
     const sortedKeys = Object.keys(grouped).sort(sortMaterials);
@@ -488,7 +987,10 @@ const App = () => {
                     {items.map(({ part, index }, groupIdx) => (
                       <tr key={index} className="hover:bg-blue-50/30 transition-colors group">
                         <td className="px-4 py-3">
-                          <div className="font-medium text-gray-800 mb-1">{part.name}</div>
+                          <div className="font-medium text-gray-800 mb-1">
+                            {part.name}
+                            {part.gradedFrom && <span className="ml-2 text-[10px] font-semibold text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">Escalada de {part.gradedFrom}</span>}
+                          </div>
                           <div className="flex items-center gap-2 mb-1">
                             <span className="text-xs text-gray-400 w-8">Cod:</span>
                             <div className="relative w-full">
@@ -550,6 +1052,10 @@ const App = () => {
               <th className="px-6 py-4 w-1/6">Grupo Material</th>
               <th className="px-6 py-4 w-16">Cant.</th>
               <th className="px-6 py-4 w-24">Consumo</th>
+              <th className="px-6 py-4 w-24">Bruto</th>
+              <th className="px-6 py-4 w-28">Pedido</th>
+              <th className="px-6 py-4 w-20">Calidad</th>
+              <th className="px-6 py-4 w-24">Costo</th>
               <th className="px-6 py-4">Notas (Dimensiones)</th>
             </tr>
           </thead>
@@ -566,16 +1072,28 @@ const App = () => {
                  <React.Fragment key={material}>
                    {/* Material Group Header */}
                    <tr className={`${bgClass} border-y border-gray-200`}>
-                     <td colSpan={8} className="px-6 py-2 font-bold flex items-center gap-2">
+                     <td colSpan={12} className="px-6 py-2 font-bold flex items-center gap-2">
                        <Layers size={16} />
                        {material} 
                        <span className="text-xs font-normal opacity-70 ml-2">({items.length} piezas)</span>
+                       {orderTotal(order) > 0 && sumGrossConsumption(items.map(({ part }) => part), materialRules, yieldSettings, consumptionSettings, orderUnits) && (
+                         <span className="text-xs font-mono font-normal ml-auto" title="Consumo bruto del pedido">
+                           Pedido: {sumGrossConsumption(items.map(({ part }) => part), materialRules, yieldSettings, consumptionSettings, orderUnits)}
+                         </span>
+                       )}
                      </td>
                    </tr>
                    {/* Items in this group */}
                    {items.map(({ part, index }, groupIdx) => (
                      <tr key={index} className="hover:bg-blue-50/50 border-b border-gray-50 last:border-b-0 group">
-                       <td className="px-6 py-3 font-medium text-gray-900">{part.name}</td>
+                       <td className="px-6 py-3 font-medium text-gray-900">
+                          {part.name}
+                          {part.gradedFrom && (
+                            <div className="text-[10px] font-semibold text-indigo-600" title="Pieza generada por escalado, no leída de la ficha">
+                              Escalada de {part.gradedFrom}
+                            </div>
+                          )}
+                       </td>
                        <td className="px-6 py-3">
                          <input 
                             type="text"
@@ -628,8 +1146,36 @@ const App = () => {
                             className="w-full px-2 py-1.5 rounded border border-gray-200 text-right focus:ring-2 focus:ring-blue-500 outline-none"
                          />
                        </td>
-                       <td className="px-6 py-3 font-mono text-xs font-bold text-blue-600">
-                          {calculateConsumption(part)}
+                       <td
+                          className={`px-6 py-3 font-mono text-xs font-bold ${
+                            calculateConsumption(part, materialRules, yieldSettings, consumptionSettings) === DIMENSION_ERROR ? 'text-red-600'
+                            : calculateConsumption(part, materialRules, yieldSettings, consumptionSettings) === NO_RULE ? 'text-amber-600'
+                            : 'text-blue-600'
+                          }`}
+                          title={calculateConsumption(part, materialRules, yieldSettings, consumptionSettings) === NO_RULE ? "Agregue una regla de material para este código o grupo" : undefined}
+                       >
+                          {calculateConsumption(part, materialRules, yieldSettings, consumptionSettings)}
+                       </td>
+                       <td className="px-6 py-3 font-mono text-xs font-bold text-emerald-700">
+                          {calculateGrossConsumption(part, materialRules, yieldSettings, consumptionSettings)}
+                          <div className="text-[10px] font-normal text-gray-400">{describePartYield(part, materialRules, yieldSettings)}</div>
+                       </td>
+                       <td className="px-6 py-3 font-mono text-xs font-bold text-indigo-700" title={`${orderUnits(part)} unidad(es)`}>
+                          {calculateGrossConsumption(part, materialRules, yieldSettings, consumptionSettings, orderUnits(part))}
+                       </td>
+                       <td className="px-6 py-3">
+                         <input 
+                            type="text"
+                            value={part.grade || ""}
+                            onChange={(e) => handlePartUpdate(index, 'grade', e.target.value.toUpperCase(), groupIdx === 0)}
+                            placeholder={groupIdx === 0 ? "Calidad" : "Igual..."}
+                            className="w-full px-2 py-1.5 rounded border border-gray-200 text-center text-xs font-bold text-slate-600 focus:ring-2 focus:ring-blue-500 outline-none"
+                         />
+                       </td>
+                       <td className="px-6 py-3 font-mono text-xs text-gray-700">
+                          {calculatePartCost(part, materialRules, yieldSettings, priceList) !== null
+                            ? formatMoney(calculatePartCost(part, materialRules, yieldSettings, priceList)!, priceList.currency)
+                            : "-"}
                        </td>
                        <td className="px-6 py-3 text-gray-500 text-xs">{part.notes || "-"}</td>
                      </tr>
@@ -643,15 +1189,120 @@ const App = () => {
     );
   };
 
+  // Purchase view of every open reference: what to buy for all the orders together
+  const renderConsolidated = () => {
+    const { totals, byReference, groupsOf, costs } = getConsolidatedTotals();
+
+    return (
+      <div className="animate-fade-in">
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 flex flex-col md:flex-row items-center justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <div className="bg-amber-100 p-2 rounded-full text-amber-600">
+              <Box size={20} />
+            </div>
+            <div>
+              <h3 className="font-semibold text-amber-900">Consolidado de {references.length} referencias</h3>
+              <p className="text-sm text-amber-800">
+                Consumo bruto del pedido de cada referencia, sumado por código y color. Los grupos (Cuero 1, Forro 1...) se numeran en cada ficha, así que no se suman entre sí.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button 
+                onClick={resetApp}
+                className="whitespace-nowrap flex items-center gap-2 bg-white border border-amber-300 text-amber-900 hover:bg-amber-50 px-5 py-3 rounded-lg font-medium transition-colors shadow-sm"
+            >
+                <RefreshCw size={18} />
+                Nueva Ficha
+            </button>
+            <button 
+                onClick={downloadConsolidatedExcel}
+                className="whitespace-nowrap flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-5 py-3 rounded-lg font-medium transition-colors shadow-lg shadow-emerald-200"
+            >
+                <FileSpreadsheet size={18} />
+                Descargar Excel
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-gray-200 shadow-sm bg-white">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-700 font-medium border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4">Material</th>
+                <th className="px-6 py-4">Grupos</th>
+                {references.map((reference, i) => (
+                  <th key={i} className="px-6 py-4 text-right">
+                    {referenceName(reference)}
+                    <div className="text-[10px] font-normal text-gray-400">{orderTotal(reference.order)} unidad(es)</div>
+                  </th>
+                ))}
+                <th className="px-6 py-4 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {totals.length === 0 && (
+                <tr>
+                  <td colSpan={references.length + 3} className="px-6 py-8 text-center text-gray-400">Ninguna pieza tiene consumo calculado.</td>
+                </tr>
+              )}
+              {totals.map((total) => (
+                <tr key={`${total.group}|${total.unit}`} className="hover:bg-blue-50/50">
+                  <td className="px-6 py-3 font-mono font-medium text-gray-900">{total.group}</td>
+                  <td className="px-6 py-3 text-xs text-gray-500">{groupsOf(total.group)}</td>
+                  {byReference.map((reference, i) => {
+                    const line = reference.find((t) => t.group === total.group && t.unit === total.unit);
+                    return (
+                      <td key={i} className="px-6 py-3 text-right font-mono text-xs text-gray-600">
+                        {line ? formatConsumption(line.gross, line.unit, consumptionSettings) : "-"}
+                      </td>
+                    );
+                  })}
+                  <td className="px-6 py-3 text-right font-mono text-xs font-bold text-emerald-700">
+                    {formatConsumption(total.gross, total.unit, consumptionSettings)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50 border-t border-gray-200 font-medium text-gray-800">
+              <tr>
+                <td className="px-6 py-3" colSpan={2}>Costo del pedido</td>
+                {costs.map((cost, i) => (
+                  <td key={i} className="px-6 py-3 text-right font-mono text-xs">{formatMoney(cost, priceList.currency)}</td>
+                ))}
+                <td className="px-6 py-3 text-right font-mono text-xs font-bold">
+                  {formatMoney(costs.reduce((sum, cost) => sum + cost, 0), priceList.currency)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  const costSummary = getCostSummary();
+  const orderCostSummary = getCostSummary(true);
+
   return (
     <div className="min-h-screen pb-20 bg-gray-50">
       {/* Header */}
       <header className="bg-slate-900 text-white pt-10 pb-24 px-6 relative overflow-hidden">
         <div className="max-w-7xl mx-auto relative z-10">
-          <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
-            <Scissors className="text-amber-400" />
-            Gestor de Despiece
-          </h1>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <Scissors className="text-amber-400" />
+              Gestor de Despiece
+            </h1>
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              title="Referencias guardadas en este navegador"
+              className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              <Library size={18} />
+              Biblioteca
+            </button>
+          </div>
           <p className="text-slate-400 max-w-2xl">
             Sube tu ficha. El sistema organizará automáticamente por <strong>Cuero 1, Cuero 2, Forro, etc.</strong> 
             <br/>
@@ -679,7 +1330,7 @@ const App = () => {
               </div>
               <h3 className="text-lg font-semibold text-slate-700">Paso 1: Sube tu Ficha Técnica</h3>
               <p className="text-slate-500 text-sm mt-1">Soporta Imágenes (JPG, PNG) y PDF</p>
-              <p className="text-slate-400 text-xs mt-2">Puedes seleccionar múltiples archivos</p>
+              <p className="text-slate-400 text-xs mt-2">Puedes seleccionar múltiples archivos: cada uno queda como una referencia aparte</p>
               <input 
                 ref={fileInputRef} 
                 type="file" 
@@ -699,7 +1350,7 @@ const App = () => {
                     <div className="text-center p-8">
                       <FileText size={64} className="mx-auto text-red-500 mb-4" />
                       <p className="font-medium text-slate-700">{fileData.name}</p>
-                      <p className="text-sm text-slate-500">Documento PDF</p>
+                      {fileData.mime === 'application/pdf' && <p className="text-sm text-slate-500">Documento PDF</p>}
                     </div>
                   )}
                   
@@ -718,7 +1369,7 @@ const App = () => {
                 {loading && (
                   <div className="h-full flex flex-col items-center justify-center py-12 text-slate-500">
                     <Loader2 className="animate-spin mb-4 text-blue-600" size={48} />
-                    <p className="font-medium">Analizando y unificando información...</p>
+                    <p className="font-medium">Analizando cada ficha como una referencia...</p>
                     {totalFiles > 1 && (
                         <p className="text-sm text-slate-400 mt-1">Procesando archivo {processedCount + 1} de {totalFiles}...</p>
                     )}
@@ -726,19 +1377,58 @@ const App = () => {
                   </div>
                 )}
 
-                {error && (
+                {errors.length > 0 && (
                   <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg flex items-start gap-3 shadow-sm animate-in fade-in slide-in-from-top-2">
                     <AlertCircle className="mt-0.5 text-red-600 flex-shrink-0" size={20} />
-                    <div className="flex-grow">
-                      <h4 className="font-bold text-sm mb-1">{error.title}</h4>
-                      <p className="text-sm text-red-700/90">{error.suggestion}</p>
+                    <div className="flex-grow space-y-2">
+                      {errors.map((error, i) => (
+                        <div key={i}>
+                          <h4 className="font-bold text-sm mb-1">{error.title}</h4>
+                          <p className="text-sm text-red-700/90">{error.suggestion}</p>
+                        </div>
+                      ))}
                     </div>
-                    <button onClick={() => setFileData(null)} className="ml-2 text-sm font-medium underline text-red-600 hover:text-red-800 whitespace-nowrap">
+                    <button onClick={resetApp} className="ml-2 text-sm font-medium underline text-red-600 hover:text-red-800 whitespace-nowrap">
                       Reintentar
                     </button>
                   </div>
                 )}
 
+                {references.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {references.map((reference, i) => (
+                      <div
+                        key={i}
+                        className={`flex items-center rounded-full border text-sm font-medium transition-colors ${
+                          activeIndex === i ? 'bg-slate-900 border-slate-900 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-slate-400'
+                        }`}
+                      >
+                        <button onClick={() => setActiveIndex(i)} className="pl-4 pr-2 py-1.5" title={reference.sourceFiles[0]?.name}>
+                          {referenceName(reference)}
+                        </button>
+                        <button
+                          onClick={() => closeReference(i)}
+                          title="Cerrar esta referencia (sigue en la biblioteca)"
+                          className="pr-3 py-1.5 opacity-50 hover:opacity-100"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => setActiveIndex(null)}
+                      className={`flex items-center gap-2 px-4 py-1.5 rounded-full border text-sm font-medium transition-colors ${
+                        activeIndex === null ? 'bg-amber-500 border-amber-500 text-white' : 'bg-white border-amber-300 text-amber-800 hover:bg-amber-50'
+                      }`}
+                    >
+                      <Box size={14} />
+                      Consolidado
+                    </button>
+                  </div>
+                )}
+
+                {activeIndex === null && references.length > 1 && renderConsolidated()}
+
                 {projectInfo && (
                   <div className="animate-fade-in">
                     {/* Project Metadata */}
@@ -761,6 +1451,63 @@ const App = () => {
                       </div>
                     </div>
 
+                    {/* Order Quantity */}
+                    <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-4 mb-6 flex flex-col md:flex-row md:items-center gap-4">
+                      <div className="flex items-start gap-3 md:w-1/3">
+                        <div className="bg-indigo-100 p-2 rounded-full text-indigo-600">
+                          <ShoppingBag size={20} />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-indigo-900">Pedido</h3>
+                          <p className="text-sm text-indigo-800">
+                            La ficha es por unidad. Indique las unidades a producir para calcular consumo y costo del pedido.
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 flex-grow">
+                        <div className="flex bg-white rounded-lg border border-indigo-200 p-1 text-sm">
+                          <button
+                            onClick={() => updateOrder({ mode: 'total' })}
+                            className={`px-3 py-1 rounded-md ${order.mode === 'total' ? 'bg-indigo-600 text-white' : 'text-indigo-700'}`}
+                          >
+                            Total
+                          </button>
+                          <button
+                            onClick={() => updateOrder({ mode: 'bySize' })}
+                            className={`px-3 py-1 rounded-md ${order.mode === 'bySize' ? 'bg-indigo-600 text-white' : 'text-indigo-700'}`}
+                          >
+                            Por tamaño
+                          </button>
+                        </div>
+                        {order.mode === 'total' ? (
+                          <label className="flex items-center gap-2 text-sm text-indigo-900">
+                            Unidades
+                            <input
+                              type="number"
+                              min={0}
+                              value={order.total}
+                              onChange={(e) => updateOrder({ total: Math.max(0, parseInt(e.target.value) || 0) })}
+                              className="w-24 px-2 py-1 rounded border border-indigo-200 font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                            />
+                          </label>
+                        ) : (
+                          SIZE_CATEGORIES.map((size) => (
+                            <label key={size} className="flex items-center gap-2 text-sm text-indigo-900" title={SIZE_NAMES[size]}>
+                              {size}
+                              <input
+                                type="number"
+                                min={0}
+                                value={order.bySize[size]}
+                                onChange={(e) => updateOrder({ bySize: { ...order.bySize, [size]: Math.max(0, parseInt(e.target.value) || 0) } })}
+                                className="w-20 px-2 py-1 rounded border border-indigo-200 font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                              />
+                            </label>
+                          ))
+                        )}
+                        <span className="text-sm font-semibold text-indigo-900 ml-auto">{orderTotal(order)} unidad(es)</span>
+                      </div>
+                    </div>
+
                     {/* Step 3 & 4 Call to Action */}
                     <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 flex flex-col md:flex-row items-center justify-between gap-4">
                       <div className="flex items-start gap-3">
@@ -775,6 +1522,41 @@ const App = () => {
                          </div>
                       </div>
                       <div className="flex items-center gap-3">
+                        <button 
+                            onClick={() => setIsRulesEditorOpen(true)}
+                            title="Reglas de material: familia, unidad y grupo por código"
+                            className="whitespace-nowrap flex items-center gap-2 bg-white border border-amber-300 text-amber-900 hover:bg-amber-50 px-4 py-3 rounded-lg font-medium transition-colors shadow-sm"
+                        >
+                            <Tags size={18} />
+                        </button>
+                        <button 
+                            onClick={() => setIsYieldEditorOpen(true)}
+                            title="Rendimiento y desperdicio por familia y calidad"
+                            className="whitespace-nowrap flex items-center gap-2 bg-white border border-amber-300 text-amber-900 hover:bg-amber-50 px-4 py-3 rounded-lg font-medium transition-colors shadow-sm"
+                        >
+                            <Percent size={18} />
+                        </button>
+                        <button 
+                            onClick={() => setIsPriceEditorOpen(true)}
+                            title="Lista de precios por código y color"
+                            className="whitespace-nowrap flex items-center gap-2 bg-white border border-amber-300 text-amber-900 hover:bg-amber-50 px-4 py-3 rounded-lg font-medium transition-colors shadow-sm"
+                        >
+                            <DollarSign size={18} />
+                        </button>
+                        <button 
+                            onClick={() => setIsConsumptionSettingsOpen(true)}
+                            title="Unidades y redondeo del consumo"
+                            className="whitespace-nowrap flex items-center gap-2 bg-white border border-amber-300 text-amber-900 hover:bg-amber-50 px-4 py-3 rounded-lg font-medium transition-colors shadow-sm"
+                        >
+                            <Sigma size={18} />
+                        </button>
+                        <button 
+                            onClick={() => setIsGradingOpen(true)}
+                            title="Generar tallas a partir de la talla base"
+                            className="whitespace-nowrap flex items-center gap-2 bg-white border border-amber-300 text-amber-900 hover:bg-amber-50 px-4 py-3 rounded-lg font-medium transition-colors shadow-sm"
+                        >
+                            <Ruler size={18} />
+                        </button>
                         <button 
                             onClick={resetApp}
                             className="whitespace-nowrap flex items-center gap-2 bg-white border border-amber-300 text-amber-900 hover:bg-amber-50 px-5 py-3 rounded-lg font-medium transition-colors shadow-sm"
@@ -808,10 +1590,49 @@ const App = () => {
                           <Layers size={18} />
                           Tarjetas por Grupo
                         </button>
+                        <div className="ml-auto flex items-center gap-1 pb-1">
+                          <button
+                            onClick={undo}
+                            disabled={history.past.length === 0}
+                            title={history.past.length > 0 ? `Deshacer: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : "Nada que deshacer"}
+                            className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed"
+                          >
+                            <Undo2 size={18} />
+                          </button>
+                          <button
+                            onClick={redo}
+                            disabled={history.future.length === 0}
+                            title={history.future.length > 0 ? `Rehacer: ${history.future[0].label} (Ctrl+Y)` : "Nada que rehacer"}
+                            className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed"
+                          >
+                            <Redo2 size={18} />
+                          </button>
+                          <button
+                            onClick={() => setIsHistoryOpen(true)}
+                            title="Historial de cambios"
+                            className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg"
+                          >
+                            <History size={18} />
+                          </button>
+                        </div>
                     </div>
 
                     {/* Content Views */}
                     {activeTab === 'materials' ? renderMaterialCards() : renderGroupedTable()}
+
+                    {/* Material Costing */}
+                    {costSummary.groups.length > 0 && (
+                      <div className="mt-6">
+                        <CostSummaryPanel
+                          summary={costSummary}
+                          currency={priceList.currency}
+                          reference={projectInfo.reference}
+                          orderSummary={orderCostSummary}
+                          orderUnits={orderTotal(order)}
+                          onEditPrices={() => setIsPriceEditorOpen(true)}
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -819,6 +1640,83 @@ const App = () => {
           )}
         </div>
       </main>
+
+      {isRulesEditorOpen && (
+        <MaterialRulesModal
+          rules={materialRules}
+          onSave={handleRulesSave}
+          onClose={() => setIsRulesEditorOpen(false)}
+        />
+      )}
+
+      {isYieldEditorOpen && (
+        <YieldSettingsModal
+          settings={yieldSettings}
+          families={[...new Set<string>(materialRules.map((r) => r.family).filter(Boolean))]}
+          onSave={handleYieldSave}
+          onClose={() => setIsYieldEditorOpen(false)}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <ProjectLibrary
+          app="gemini"
+          currentId={active?.projectId ?? null}
+          onOpen={openProject}
+          onRenamed={(id, reference) =>
+            setReferences((prev) => prev.map((r) => (r.projectId === id ? { ...r, projectInfo: { ...r.projectInfo, reference } } : r)))
+          }
+          onDeleted={(id) => {
+            const index = references.findIndex((r) => r.projectId === id);
+            if (index >= 0) closeReference(index);
+          }}
+          onExport={exportProjectFile}
+          onImport={importProjectFile}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isConsumptionSettingsOpen && (
+        <ConsumptionSettingsModal
+          settings={consumptionSettings}
+          onSave={handleConsumptionSettingsSave}
+          onClose={() => setIsConsumptionSettingsOpen(false)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <HistoryPanel
+          history={history}
+          onJump={(count) => restoreHistory(jumpTo(history, count))}
+          onUndo={undo}
+          onRedo={redo}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isGradingOpen && (
+        <GradingModal
+          settings={gradingSettings}
+          pieces={getGradingPieces()}
+          derivedCount={parts.filter((p) => p.gradedFrom).length}
+          onGenerate={handleGenerateSizes}
+          onRemoveDerived={() =>
+            commitParts(parts.filter((p) => !p.gradedFrom), {
+              label: "Quitar tallas escaladas",
+              describe: (before, after) => `${before.length - after.length} pieza(s) eliminadas`,
+            })
+          }
+          onClose={() => setIsGradingOpen(false)}
+        />
+      )}
+
+      {isPriceEditorOpen && (
+        <PriceListModal
+          priceList={priceList}
+          onSave={handlePriceListSave}
+          onClose={() => setIsPriceEditorOpen(false)}
+        />
+      )}
     </div>
   );
 };
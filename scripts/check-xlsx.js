@@ -0,0 +1,19 @@
+// Spreadsheets come from customers, so the parser must be the maintained SheetJS build from
+// cdn.sheetjs.com: the "xlsx" package on npm stopped at 0.18.5, which has unpatched advisories
+// (CVE-2023-30533, CVE-2024-22363). Fails the install when a registry mirror resolved that one.
+import { readFileSync } from 'node:fs';
+
+const MINIMUM = [0, 20, 2];
+
+const { version } = JSON.parse(readFileSync(new URL('../node_modules/xlsx/package.json', import.meta.url), 'utf8'));
+const parts = version.split('.').map((n) => parseInt(n, 10));
+const first = MINIMUM.findIndex((min, i) => parts[i] !== min);
+
+if (first >= 0 && !(parts[first] > MINIMUM[first])) {
+  console.error(
+    `xlsx ${version} is installed; ${MINIMUM.join('.')} or later is required.\n` +
+      'Install it from the SheetJS CDN (see README), or from a downloaded copy of the tarball:\n' +
+      '  npm install ./xlsx-0.20.3.tgz',
+  );
+  process.exit(1);
+}
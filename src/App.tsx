@@ -1,24 +1,191 @@
-import React, { useState, useRef } from 'react';
-import { Plus, Trash2, Calculator, FileText, Download, X, Upload } from 'lucide-react';
-import { RawPart, ProcessedPart } from './types';
-import { processParts } from './leatherProcessor';
-import { extractDataFromPdf } from './pdfProcessor';
+import React, { useState, useRef, useEffect } from 'react';
+import { Plus, Trash2, Calculator, FileText, Download, X, Upload, SlidersHorizontal, AlertTriangle, Tags, Percent, DollarSign, LayoutGrid, Sigma, Tag, Library, Undo2, Redo2, History } from 'lucide-react';
+import { RawPart, ProcessedPart, ParsingProfile, ProjectInfo, TextItem, MaterialRule, YieldSettings, PriceList, StockSpec, ConsumptionSettings, LabelMapping, SavedProject } from './types';
+import { processParts, sortProcessedParts } from './leatherProcessor';
+import { createPartFromTextItems, extractDataFromFile } from './pdfProcessor';
+import { loadProfiles, saveProfiles } from './parsingProfiles';
+import ProfileEditorModal from './ProfileEditorModal';
+import MaterialRulesModal from './MaterialRulesModal';
+import { loadMaterialRules, saveMaterialRules } from './materialRules';
+import ConsumptionSettingsModal from './ConsumptionSettingsModal';
+import { BILLING_UNIT_NAMES, isAreaUnit, loadConsumptionSettings, saveConsumptionSettings, totalConsumption } from './consumption';
+import YieldSettingsModal from './YieldSettingsModal';
+import { describeYield, listGrades, loadYieldSettings, saveYieldSettings } from './yieldFactors';
+import PriceListModal from './PriceListModal';
+import CostSummaryPanel from './CostSummaryPanel';
+import { applyPrices, formatMoney, loadPriceList, savePriceList, summarizeCosts } from './priceList';
+import LabelMappingModal from './LabelMappingModal';
+import { assignLabels, collectLabelCodes, loadLabelMapping, saveLabelMapping } from './labelMappings';
+import NestingModal from './NestingModal';
+import { loadStockSpecs, saveStockSpecs } from './nesting';
+import ProjectLibrary from './ProjectLibrary';
+import { AUTOSAVE_DELAY, getProject, loadOpenProjectIds, saveOpenProjectIds, saveProject, toFile, toStoredFile } from './projectStore';
+import { createProjectFile, projectFileName, readProjectFile, serializeProjectFile, toRawParts } from './projectFile';
+import { DEFAULT_ORDER } from './orderQuantities';
+import HistoryPanel from './HistoryPanel';
+import { EditHistory, StepInput, emptyHistory, formatHistoryValue, historyShortcut, jumpTo, recordStep, redoStep, undoStep } from './editHistory';
+import SourceViewer from './SourceViewer';
+import ColumnMappingDialog from './ColumnMappingDialog';
+import { ColumnMapping, SpreadsheetData, getSavedMapping, guessMapping, isSpreadsheetFile, readSpreadsheet, rowsToParts, saveMapping } from './spreadsheetImporter';
+import { CONFIDENCE_LABELS, LOW_CONFIDENCE_THRESHOLD, reviewConfidence } from './confidence';
+import { SIZE_CATEGORIES, SIZE_NAMES, SizeCategory } from './sizeCategories';
+import { isDxfFile, matchOutlinesToParts, readDxfOutlines } from './dxfImporter';
+import DuplicateReviewDialog from './DuplicateReviewDialog';
+import { DuplicateAction, DuplicateMatch, findDuplicates, resolveDuplicates } from './duplicateParts';
+
+const isLowConfidence = (part: RawPart) => part.confidence !== undefined && part.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+// Tooltip text explaining where an extracted part came from and why it may need review
+const describeProvenance = (part: RawPart) => {
+  const lines: string[] = [];
+  if (part.source) lines.push(`${part.source.fileName} · pág. ${part.source.page}`, `Texto: ${part.source.tokens.join(' | ')}`);
+  if (part.confidence !== undefined) lines.push(`Confianza: ${Math.round(part.confidence * 100)}%`);
+  for (const flag of part.confidenceFlags ?? []) lines.push(`• ${CONFIDENCE_LABELS[flag]}`);
+  return lines.join('\n');
+};
+
+const describeOutline = (part: RawPart) => part.outline
+  ? `Contorno DXF "${part.outline.name}" (${part.outline.fileName})\nÁrea: ${(part.outline.area / 100).toFixed(1)} cm² · Perímetro: ${(part.outline.perimeter / 10).toFixed(1)} cm\nClic para volver al rectángulo`
+  : '';
+
+const hasInvalidDimensions = (part: RawPart) => part.confidenceFlags?.includes('invalidDimensions') ?? false;
+
+const PROJECT_FIELDS: { key: keyof ProjectInfo; label: string }[] = [
+  { key: 'reference', label: 'Referencia' },
+  { key: 'collection', label: 'Colección' },
+  { key: 'date', label: 'Fecha' },
+  { key: 'totalMolds', label: 'Total Moldes' },
+];
+
+// Quote cells containing separators so commas in descriptions don't shift columns
+const toCsvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Field names in the history panel
+const PART_FIELD_LABELS: Partial<Record<keyof RawPart, string>> = {
+  material: 'Material',
+  color: 'Color',
+  description: 'Descripción',
+  notes: 'Notas',
+  width: 'Ancho',
+  height: 'Alto',
+  quantity: 'Cantidad',
+  category: 'Tamaño',
+  grade: 'Calidad',
+  outline: 'Contorno DXF',
+};
+
+const historyValue = (part: RawPart | undefined, field: keyof RawPart) =>
+  formatHistoryValue(field === 'outline' ? part?.outline?.name : part?.[field]);
+
+const describePart = (part: RawPart) =>
+  `${part.material || '(sin material)'} ${part.description} · ${part.width} x ${part.height} mm × ${part.quantity}`.replace(/\s+/g, ' ');
+
+// Saved labels of a reference; one without saved labels numbers its codes from 1
+const labelsOf = (reference: string) => ({ reference: reference.trim(), mapping: loadLabelMapping(reference) ?? {} });
+
+const EMPTY_PROJECT_INFO: ProjectInfo = { reference: '', collection: '', date: '', totalMolds: '' };
 
 function App() {
   const [parts, setParts] = useState<RawPart[]>([
     { id: '1', material: '1cap-Negro', color: 'Liso', description: 'Frente Bolso', notes: 'Refilar bordes', width: 300, height: 400, quantity: 2 },
     { id: '2', material: '1vaq-Cafe', color: 'Grano', description: 'Correa', notes: '', width: 1000, height: 50, quantity: 1 },
   ]);
+  const [projectInfo, setProjectInfo] = useState<ProjectInfo>(EMPTY_PROJECT_INFO);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // Set when the state is replaced by an opened or new project, which needs no save
+  const skipAutosave = useRef(true);
+  const [sourceFiles, setSourceFiles] = useState<File[]>([]);
+  const [selectedPartId, setSelectedPartId] = useState<string | null>(null);
+  // Spreadsheets waiting for the user to map their columns, shown one at a time
+  const [pendingSheets, setPendingSheets] = useState<SpreadsheetData[]>([]);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isProcessingPdf, setIsProcessingPdf] = useState(false);
+  const [profiles, setProfiles] = useState<ParsingProfile[]>(loadProfiles);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('auto');
+  const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+  const [materialRules, setMaterialRules] = useState<MaterialRule[]>(loadMaterialRules);
+  const [isRulesEditorOpen, setIsRulesEditorOpen] = useState(false);
+  const [yieldSettings, setYieldSettings] = useState<YieldSettings>(loadYieldSettings);
+  const [isYieldEditorOpen, setIsYieldEditorOpen] = useState(false);
+  const [priceList, setPriceList] = useState<PriceList>(loadPriceList);
+  const [isPriceEditorOpen, setIsPriceEditorOpen] = useState(false);
+  const [stockSpecs, setStockSpecs] = useState<StockSpec[]>(loadStockSpecs);
+  const [isNestingOpen, setIsNestingOpen] = useState(false);
+  const [consumptionSettings, setConsumptionSettings] = useState<ConsumptionSettings>(loadConsumptionSettings);
+  const [isConsumptionSettingsOpen, setIsConsumptionSettingsOpen] = useState(false);
+  // Labels of the reference they were loaded or saved for; another reference never inherits them
+  const [storedLabels, setStoredLabels] = useState<{ reference: string; mapping: LabelMapping }>(() => labelsOf(''));
+  const [isLabelEditorOpen, setIsLabelEditorOpen] = useState(false);
+  const [history, setHistory] = useState<EditHistory<RawPart[]>>(emptyHistory);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [editingMaterialId, setEditingMaterialId] = useState<string | null>(null); // part whose code is being typed
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
   const [notification, setNotification] = useState<{message: string, type: 'success' | 'error'} | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Latest parts, for handlers that resume after an await: the user keeps editing while a file is parsed or read by OCR
+  const partsRef = useRef(parts);
+  partsRef.current = parts;
 
   const showNotification = (message: string, type: 'success' | 'error' = 'success') => {
     setNotification({ message, type });
     setTimeout(() => setNotification(null), 4000);
   };
 
+  // Every change to the parts goes through here so it can be undone
+  const commitParts = (next: RawPart[], step: Omit<StepInput<RawPart[]>, 'before' | 'after'>) => {
+    const before = partsRef.current;
+    partsRef.current = next;
+    setHistory((prev) => recordStep(prev, { ...step, before, after: next }));
+    setParts(next);
+  };
+
+  const restoreHistory = (result: { history: EditHistory<RawPart[]>; state: RawPart[] } | null) => {
+    if (!result) return;
+    partsRef.current = result.state;
+    setHistory(result.history);
+    setParts(result.state);
+  };
+
+  const undo = () => restoreHistory(undoStep(history));
+  const redo = () => restoreHistory(redoStep(history));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = historyShortcut(e);
+      if (!action) return;
+      e.preventDefault();
+      if (action === 'undo') undo();
+      else redo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+
+  const rowNumber = (id: string) => parts.findIndex((p) => p.id === id) + 1;
+
+  // Imports append to the table, so the same ficha uploaded twice (or a piece repeated across pages) is offered for review
+  const reviewDuplicates = (next: RawPart[], imported: RawPart[]) => {
+    const matches = findDuplicates(next, new Set(imported.map((p) => p.id)));
+    if (matches.length > 0) setDuplicateMatches(matches);
+  };
+
+  const handleDuplicatesResolve = (actions: Record<string, DuplicateAction>) => {
+    const chosen = duplicateMatches.map((match) => actions[match.partId]);
+    const merged = chosen.filter((action) => action === 'merge').length;
+    const dropped = chosen.filter((action) => action === 'drop').length;
+    setDuplicateMatches([]);
+    if (merged + dropped === 0) return;
+    commitParts(resolveDuplicates(parts, duplicateMatches, actions), {
+      label: 'Revisar duplicados',
+      describe: () => `${merged} sumada(s) · ${dropped} descartada(s)`,
+    });
+    showNotification(`Duplicados revisados: ${merged} pieza(s) sumadas y ${dropped} descartadas.`);
+  };
+
   const addRow = () => {
     const newPart: RawPart = {
       id: crypto.randomUUID(),
@@ -30,19 +197,29 @@ function App() {
       height: 0,
       quantity: 1,
     };
-    setParts([...parts, newPart]);
+    commitParts([...parts, newPart], { label: `Agregar fila ${parts.length + 1}` });
   };
 
-  const updatePart = (id: string, field: keyof RawPart, value: string | number) => {
-    setParts((prevParts) => prevParts.map((p) => (p.id === id ? { ...p, [field]: value } : p)));
-  };
+  const updatePart = (id: string, field: keyof RawPart, value: string | number) => updatePartFields(id, { [field]: value });
 
+  // Typing in one cell makes a single step
   const updatePartFields = (id: string, updates: Partial<RawPart>) => {
-    setParts((prevParts) => prevParts.map((p) => (p.id === id ? { ...p, ...updates } : p)));
+    const fields = Object.keys(updates) as (keyof RawPart)[];
+    // An edited field counts as reviewed, so its flags stop highlighting the row
+    commitParts(parts.map((p) => (p.id === id ? reviewConfidence({ ...p, ...updates }, fields) : p)), {
+      label: `${fields.map((field) => PART_FIELD_LABELS[field] ?? field).join(' y ')} de la fila ${rowNumber(id)}`,
+      mergeKey: `${id}:${fields.join(',')}`,
+      describe: (before, after) =>
+        fields
+          .map((field) => `${historyValue(before.find((p) => p.id === id), field)} → ${historyValue(after.find((p) => p.id === id), field)}`)
+          .join(' · '),
+    });
   };
 
   const removePart = (id: string) => {
-    setParts(parts.filter((p) => p.id !== id));
+    const removed = parts.find((p) => p.id === id);
+    if (!removed) return;
+    commitParts(parts.filter((p) => p.id !== id), { label: `Eliminar fila ${rowNumber(id)}`, describe: () => describePart(removed) });
   };
 
   const handleMaterialChange = (id: string, value: string) => {
@@ -55,20 +232,256 @@ function App() {
     }
   };
 
+  const handleSheetImport = (mapping: ColumnMapping) => {
+    const [sheet, ...rest] = pendingSheets;
+    saveMapping(sheet.headers, mapping);
+    const imported = rowsToParts(sheet, mapping);
+    commitParts([...parts, ...imported], { label: `Importar ${sheet.fileName}`, describe: () => `${imported.length} pieza(s) agregadas` });
+    reviewDuplicates([...parts, ...imported], imported);
+    setPendingSheets(rest);
+    showNotification(`Se importaron ${imported.length} registros de ${sheet.fileName}.`);
+  };
+
+  const handleSourcePartSelect = (id: string) => {
+    setSelectedPartId(id);
+    document.querySelector(`tr[data-part-id="${id}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  };
+
+  const handleCreatePartFromSource = (items: TextItem[], fileName: string, page: number) => {
+    const profile = profiles.find((p) => p.id === selectedProfileId);
+    const part = createPartFromTextItems(items, fileName, page, profile);
+    commitParts([...parts, part], { label: `Pieza desde ${fileName}, pág. ${page}`, describe: () => describePart(part) });
+    setSelectedPartId(part.id);
+    showNotification('Pieza creada desde el documento. Complete los datos faltantes.');
+  };
+
+  const handleProfilesSave = (updated: ParsingProfile[]) => {
+    setProfiles(updated);
+    saveProfiles(updated);
+    if (selectedProfileId !== 'auto' && !updated.some((p) => p.id === selectedProfileId)) {
+      setSelectedProfileId('auto');
+    }
+    setIsProfileEditorOpen(false);
+    showNotification('Perfiles de lectura guardados.');
+  };
+
+  const handleRulesSave = (updated: MaterialRule[]) => {
+    setMaterialRules(updated);
+    saveMaterialRules(updated);
+    setIsRulesEditorOpen(false);
+    showNotification('Reglas de material guardadas.');
+  };
+
+  const handleYieldSave = (updated: YieldSettings) => {
+    setYieldSettings(updated);
+    saveYieldSettings(updated);
+    setIsYieldEditorOpen(false);
+    showNotification('Factores de rendimiento guardados.');
+  };
+
+  const handlePriceListSave = (updated: PriceList) => {
+    setPriceList(updated);
+    savePriceList(updated);
+    setIsPriceEditorOpen(false);
+    showNotification('Lista de precios guardada.');
+  };
+
+  const handleConsumptionSettingsSave = (updated: ConsumptionSettings) => {
+    setConsumptionSettings(updated);
+    saveConsumptionSettings(updated);
+    setIsConsumptionSettingsOpen(false);
+    showNotification('Unidades y redondeo guardados.');
+  };
+
+  const openProject = (project: SavedProject) => {
+    skipAutosave.current = true;
+    setProjectId(project.id);
+    setProjectInfo(project.projectInfo);
+    setStoredLabels(labelsOf(project.projectInfo.reference));
+    setParts(project.parts as RawPart[]);
+    setHistory(emptyHistory());
+    setSourceFiles(project.sourceFiles.map(toFile));
+    setSelectedPartId(null);
+    saveOpenProjectIds('local', [project.id]);
+    setIsLibraryOpen(false);
+  };
+
+  const startNewProject = () => {
+    skipAutosave.current = true;
+    setProjectId(null);
+    setProjectInfo(EMPTY_PROJECT_INFO);
+    setStoredLabels(labelsOf(''));
+    setParts([]);
+    setHistory(emptyHistory());
+    setSourceFiles([]);
+    setSelectedPartId(null);
+    saveOpenProjectIds('local', []);
+    setIsLibraryOpen(false);
+  };
+
+  // Reopen the project that was open before the page was refreshed
+  useEffect(() => {
+    const [id] = loadOpenProjectIds('local');
+    if (!id) return;
+    getProject(id)
+      .then((project) => project && openProject(project))
+      .catch((error) => console.error('Error opening project:', error));
+  }, []);
+
+  // Autosave to IndexedDB; a project gets its id on the first change
+  useEffect(() => {
+    if (skipAutosave.current) {
+      skipAutosave.current = false;
+      return;
+    }
+    if (parts.length === 0 && !projectInfo.reference) return;
+    if (!projectId) {
+      const id = crypto.randomUUID();
+      setProjectId(id);
+      saveOpenProjectIds('local', [id]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      saveProject({ id: projectId, app: 'local', projectInfo, parts, sourceFiles: sourceFiles.map(toStoredFile), updatedAt: Date.now() })
+        .catch((error) => {
+          console.error('Error saving project:', error);
+          showNotification('No se pudo guardar el proyecto en el navegador.', 'error');
+        });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [projectId, projectInfo, parts, sourceFiles]);
+
+  /**
+   * Opens a project file exported from either app as a new project. The file's material rules
+   * replace the current ones only if the user agrees; this app has no order quantities.
+   */
+  const importProjectFile = async (file: File): Promise<string[] | null> => {
+    const result = readProjectFile(await file.text());
+    if (result.ok === false) return result.errors;
+    const imported = result.file;
+    if (
+      imported.materialRules.length > 0 &&
+      JSON.stringify(imported.materialRules) !== JSON.stringify(materialRules) &&
+      window.confirm('El archivo trae sus propias reglas de material. ¿Reemplazar las reglas actuales?')
+    ) {
+      setMaterialRules(imported.materialRules);
+      saveMaterialRules(imported.materialRules);
+    }
+    if (Object.keys(imported.labelMapping).length > 0) saveLabelMapping(imported.projectInfo.reference, imported.labelMapping);
+    setStoredLabels(labelsOf(imported.projectInfo.reference));
+    skipAutosave.current = false;
+    setProjectId(null);
+    saveOpenProjectIds('local', []);
+    setProjectInfo(imported.projectInfo);
+    setParts(toRawParts(imported));
+    setHistory(emptyHistory());
+    setSourceFiles([]);
+    setSelectedPartId(null);
+    setIsLibraryOpen(false);
+    showNotification(
+      `Proyecto "${imported.projectInfo.reference || 'Sin referencia'}" importado${result.migratedFrom !== null ? ` desde un archivo de la versión ${result.migratedFrom}` : ''}.`,
+    );
+    return null;
+  };
+
+  const exportProjectFile = () => {
+    // No order quantities here: the file carries a single unit, as a new project in the other app
+    const file = createProjectFile({ app: 'local', projectInfo, parts, labelMapping, materialRules, order: DEFAULT_ORDER });
+    const blob = new Blob([serializeProjectFile(file)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = projectFileName(projectInfo);
+    link.click();
+  };
+
+  const handleLabelsSave = (updated: LabelMapping) => {
+    setStoredLabels({ reference: projectInfo.reference.trim(), mapping: updated });
+    saveLabelMapping(projectInfo.reference, updated);
+    setIsLabelEditorOpen(false);
+    showNotification('Rótulos guardados.');
+  };
+
+  const handleStockSpecsSave = (updated: StockSpec[]) => {
+    setStockSpecs(updated);
+    saveStockSpecs(updated);
+    showNotification('Material de corte guardado.');
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
     setIsProcessingPdf(true);
     try {
+      const uploaded = [...files];
+      const documents = uploaded.filter((file) => !isSpreadsheetFile(file) && !isDxfFile(file));
+      const sheets = await Promise.all(uploaded.filter(isSpreadsheetFile).map(readSpreadsheet));
+      if (sheets.length > 0) {
+        setPendingSheets((prev) => [...prev, ...sheets]);
+      }
+      const patterns = await Promise.all(
+        uploaded.filter(isDxfFile).map(async (file) => ({ fileName: file.name, outlines: await readDxfOutlines(file) })),
+      );
+      if (documents.length === 0 && patterns.length === 0) return;
+
       const allNewParts: RawPart[] = [];
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const extractedParts = await extractDataFromPdf(file);
-        allNewParts.push(...extractedParts);
+      const extractedInfos: ProjectInfo[] = [];
+      let ocrPageCount = 0;
+      const profile = profiles.find((p) => p.id === selectedProfileId) ?? 'auto';
+      for (const file of documents) {
+        const result = await extractDataFromFile(file, profile, profiles);
+        allNewParts.push(...result.parts);
+        extractedInfos.push(result.projectInfo);
+        ocrPageCount += result.ocrPages.length;
+      }
+
+      if (documents.length > 0 && allNewParts.length === 0) {
+        showNotification('No se encontraron piezas en los archivos. Verifique que la ficha sea legible o pruebe otro perfil.', 'error');
+        return;
+      }
+
+      // Pattern outlines apply to the parts already in the table as well as the new ones
+      let nextParts = [...partsRef.current, ...allNewParts];
+      const unmatchedOutlines: string[] = [];
+      for (const { fileName, outlines } of patterns) {
+        const result = matchOutlinesToParts(nextParts, outlines, fileName);
+        nextParts = result.parts;
+        unmatchedOutlines.push(...result.unmatched.map((outline) => outline.name));
       }
-      setParts((prevParts) => [...prevParts, ...allNewParts]);
-      showNotification(`Se integraron ${allNewParts.length} registros de ${files.length} archivo(s) correctamente.`);
+      const outlineCount = nextParts.filter((p) => p.outline && patterns.some((d) => d.fileName === p.outline!.fileName)).length;
+
+      commitParts(nextParts, {
+        label: `Importar ${uploaded.map((file) => file.name).join(', ')}`,
+        describe: () =>
+          [allNewParts.length > 0 ? `${allNewParts.length} pieza(s) agregadas` : '', patterns.length > 0 ? `${outlineCount} contorno(s) DXF` : '']
+            .filter(Boolean)
+            .join(' · '),
+      });
+      reviewDuplicates(nextParts, allNewParts);
+      // A re-uploaded file replaces the previous copy with the same name
+      setSourceFiles((prev) => [...prev.filter((f) => !documents.some((d) => d.name === f.name)), ...documents]);
+      // Only fill fields that are still empty, so manual edits and the first ficha's data win
+      setProjectInfo((prev) => {
+        const next = { ...prev };
+        for (const info of extractedInfos) {
+          for (const { key } of PROJECT_FIELDS) {
+            if (!next[key] && info[key]) next[key] = info[key];
+          }
+        }
+        return next;
+      });
+      const mergedCount = allNewParts.filter((p) => (p.mergedLines ?? 1) > 1).length;
+      const lowConfidenceCount = allNewParts.filter(isLowConfidence).length;
+      showNotification((
+        (documents.length > 0 ? `Se integraron ${allNewParts.length} registros de ${documents.length} archivo(s) correctamente.` : '') +
+        (mergedCount > 0 ? ` ${mergedCount} pieza(s) unidas desde varias líneas.` : '') +
+        (ocrPageCount > 0 ? ` ${ocrPageCount} página(s) leídas por OCR: revise los valores.` : '') +
+        (lowConfidenceCount > 0 ? ` ${lowConfidenceCount} fila(s) marcadas para revisión.` : '') +
+        (patterns.length > 0 ? ` ${outlineCount} pieza(s) con contorno DXF.` : '') +
+        (unmatchedOutlines.length > 0 ? ` Contornos sin pieza: ${unmatchedOutlines.join(', ')}.` : '')
+        ).trim(),
+        patterns.length > 0 && outlineCount === 0 ? 'error' : 'success',
+      );
     } catch (error) {
       console.error('Error processing PDF:', error);
       showNotification('Error al procesar los archivos. Verifique el formato.', 'error');
@@ -80,42 +493,89 @@ function App() {
     }
   };
 
-  const processedParts = processParts(parts);
+  // Codes never seen in this reference get the next free label of their group
+  const labelCodes = collectLabelCodes(parts, materialRules);
+  // Each reference keeps its own labels: when the reference changes, its saved labels apply from the same render
+  const referenceLabels = storedLabels.reference === projectInfo.reference.trim() ? storedLabels : labelsOf(projectInfo.reference);
+  const labelMapping = assignLabels(labelCodes, referenceLabels.mapping);
+
+  // Persist new codes once their cell is left, so deleting or reordering rows never renumbers them; while a code
+  // is typed, each partial code ("1cap", "1cap-", ...) would otherwise keep a number of its own
+  useEffect(() => {
+    if (editingMaterialId === null && Object.keys(labelMapping).length > Object.keys(referenceLabels.mapping).length) {
+      saveLabelMapping(projectInfo.reference, labelMapping);
+      setStoredLabels({ reference: projectInfo.reference.trim(), mapping: labelMapping });
+    } else if (referenceLabels !== storedLabels) {
+      setStoredLabels(referenceLabels);
+    }
+  }, [labelMapping, referenceLabels, storedLabels, projectInfo.reference, editingMaterialId]);
+
+  // Screen and export go through the same consumption settings, so their figures always agree
+  const computeParts = (settings: ConsumptionSettings) =>
+    applyPrices(sortProcessedParts(processParts(parts, materialRules, yieldSettings, settings, labelMapping)), priceList);
+
+  // Only parts with a consumption can be priced or totalled
+  const summarizeParts = (processed: ProcessedPart[], settings: ConsumptionSettings) => {
+    const measured = processed.filter((p) => p.consumption);
+    return {
+      costs: summarizeCosts(measured.map((p) => ({ group: p.leatherLabel ?? p.material, cost: p.cost ?? null }))),
+      totals: totalConsumption(measured.map((p) => ({ group: p.leatherLabel ?? p.material, consumption: p.consumption! })), settings),
+    };
+  };
+
+  const processedParts = computeParts(consumptionSettings);
+  const { costs: costSummary, totals: consumptionTotals } = summarizeParts(processedParts, consumptionSettings);
+  const grades = listGrades(yieldSettings);
+
+  const handleExport = (settings: ConsumptionSettings) => {
+    setConsumptionSettings(settings);
+    saveConsumptionSettings(settings);
+    const exportedParts = computeParts(settings);
+    const { costs, totals } = summarizeParts(exportedParts, settings);
 
-  const handleExport = (unit: 'dm²' | 'ft²') => {
     const csvContent = [
-      ['Material', 'Color', 'Descripción', 'Ancho (mm)', 'Alto (mm)', 'Cantidad', `Área (${unit})`],
-      ...parts.map(part => {
-        const areaMm2 = part.width * part.height * part.quantity;
-        let area = 0;
-        if (unit === 'dm²') {
-          area = areaMm2 / 10000;
-        } else {
-          area = areaMm2 / 92903.04;
-        }
+      ['Material', 'Color', 'Descripción', 'Tamaño', 'Ancho (mm)', 'Alto (mm)', 'Cantidad', 'Consumo', 'Consumo bruto', 'Unidad', 'Rendimiento', 'Fuente Área', 'Perímetro (mm)', `Costo (${priceList.currency})`, ...PROJECT_FIELDS.map((f) => f.label)],
+      ...exportedParts.map(part => {
+        const measured = part.areaUnit !== 'N/A';
         return [
           part.material,
           part.color,
           part.description + (part.notes ? ` ${part.notes}` : ''),
+          part.category ?? '',
           part.width,
           part.height,
           part.quantity,
-          area.toFixed(2)
+          measured ? part.area : '',
+          measured ? part.grossArea : '',
+          measured ? part.areaUnit : '',
+          measured ? describeYield(part.yieldFactor) : '',
+          part.areaSource === 'outline' ? `DXF ${part.outline!.name}` : 'Rectángulo',
+          part.perimeter ?? '',
+          part.cost !== undefined ? part.cost.toFixed(2) : '',
+          ...PROJECT_FIELDS.map((f) => projectInfo[f.key]),
         ];
-      })
-    ].map(e => e.join(',')).join('\n');
+      }),
+      // Totals and costing sections below the parts
+      [],
+      ['Consumo por grupo', 'Consumo', 'Consumo bruto', 'Unidad', 'Piezas'],
+      ...totals.map((t) => [t.group, t.net, t.gross, t.unit, t.parts]),
+      [],
+      ['Costo de materiales', priceList.currency],
+      ...costs.groups.map((g) => [g.group, g.cost.toFixed(2), g.unpriced > 0 ? `${g.unpriced} pieza(s) sin precio` : '']),
+      ['Total por referencia', costs.total.toFixed(2)],
+    ].map(e => e.map(toCsvCell).join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     link.href = URL.createObjectURL(blob);
-    link.download = `fichas_tecnicas_${unit === 'dm²' ? 'dm2' : 'ft2'}.csv`;
+    link.download = `fichas_tecnicas${projectInfo.reference ? `_${projectInfo.reference}` : ''}.csv`;
     link.click();
     setIsExportModalOpen(false);
   };
 
   return (
     <div className="min-h-screen bg-gray-50 p-8">
-      <div className="max-w-7xl mx-auto space-y-8">
+      <div className={`${sourceFiles.length > 0 ? 'max-w-[1800px]' : 'max-w-7xl'} mx-auto space-y-8`}>
         
         {/* Header */}
         <header className="flex items-center justify-between relative">
@@ -136,11 +596,65 @@ function App() {
             </p>
           </div>
           <div className="flex gap-3">
+            <select
+              value={selectedProfileId}
+              onChange={(e) => setSelectedProfileId(e.target.value)}
+              title="Perfil de lectura"
+              className="px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm text-gray-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              <option value="auto">Perfil: Automático</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>Perfil: {profile.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              title="Biblioteca de referencias guardadas"
+              className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <Library className="w-4 h-4" />
+              Biblioteca
+            </button>
+            <button
+              onClick={() => setIsProfileEditorOpen(true)}
+              title="Editar perfiles de lectura"
+              className="flex items-center px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-gray-700 hover:bg-gray-50"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsRulesEditorOpen(true)}
+              title="Editar reglas de material"
+              className="flex items-center px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Tags className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsYieldEditorOpen(true)}
+              title="Rendimiento y desperdicio"
+              className="flex items-center px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Percent className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsPriceEditorOpen(true)}
+              title="Lista de precios"
+              className="flex items-center px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-gray-700 hover:bg-gray-50"
+            >
+              <DollarSign className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsConsumptionSettingsOpen(true)}
+              title="Unidades y redondeo del consumo"
+              className="flex items-center px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Sigma className="w-4 h-4" />
+            </button>
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileUpload}
-              accept=".pdf"
+              accept=".pdf,image/png,image/jpeg,.xlsx,.xls,.csv,.dxf"
               multiple
               className="hidden"
             />
@@ -154,7 +668,7 @@ function App() {
               ) : (
                 <>
                   <Upload className="w-4 h-4" />
-                  Agregar PDFs
+                  Agregar Fichas
                 </>
               )}
             </button>
@@ -178,24 +692,66 @@ function App() {
               <Upload className="w-8 h-8" />
             </div>
             <h2 className="text-xl font-semibold text-gray-900 mb-2">Paso 1: Sube tu Ficha Técnica</h2>
-            <p className="text-gray-500">Soporta archivos PDF</p>
+            <p className="text-gray-500">Soporta PDF e imágenes (JPG, PNG), incluso fichas escaneadas, hojas de cálculo (Excel, CSV) y patrones DXF</p>
           </div>
         )}
 
+        {/* Project Info */}
+        <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {PROJECT_FIELDS.map(({ key, label }) => (
+            <div key={key} className="bg-white p-3 rounded-lg border border-gray-100 shadow-sm">
+              <p className="text-xs text-gray-500 uppercase tracking-wider">{label}</p>
+              <input
+                type="text"
+                value={projectInfo[key]}
+                onChange={(e) => setProjectInfo((prev) => ({ ...prev, [key]: e.target.value }))}
+                placeholder="N/A"
+                className="w-full bg-transparent border-none focus:ring-0 p-0 font-semibold text-gray-800 placeholder-gray-300"
+              />
+            </div>
+          ))}
+        </section>
+
+        <div className={sourceFiles.length > 0 ? 'grid grid-cols-1 xl:grid-cols-2 gap-6 items-start' : ''}>
         {/* Input Section */}
-        <section className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <section className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden min-w-0">
           <div className="p-6 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
             <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
               <FileText className="w-5 h-5 text-indigo-600" />
               Entrada de Datos
             </h2>
-            <button
-              onClick={addRow}
-              className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors"
-            >
-              <Plus className="w-4 h-4" />
-              Agregar Fila
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={undo}
+                disabled={history.past.length === 0}
+                title={history.past.length > 0 ? `Deshacer: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nada que deshacer'}
+                className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={redo}
+                disabled={history.future.length === 0}
+                title={history.future.length > 0 ? `Rehacer: ${history.future[0].label} (Ctrl+Y)` : 'Nada que rehacer'}
+                className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setIsHistoryOpen(true)}
+                title="Historial de cambios"
+                className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg"
+              >
+                <History className="w-4 h-4" />
+              </button>
+              <button
+                onClick={addRow}
+                className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Agregar Fila
+              </button>
+            </div>
           </div>
           
           <div className="overflow-x-auto">
@@ -205,6 +761,8 @@ function App() {
                   <th className="px-4 py-3 w-12">#</th>
                   <th className="px-4 py-3 w-32">Material</th>
                   <th className="px-4 py-3 w-32">Color</th>
+                  <th className="px-4 py-3 w-20">Tam.</th>
+                  <th className="px-4 py-3 w-20">Calidad</th>
                   <th className="px-4 py-3 w-64">Descripción</th>
                   <th className="px-4 py-3 w-48">Notas</th>
                   <th className="px-4 py-3 w-24 text-right">Ancho (mm)</th>
@@ -215,13 +773,32 @@ function App() {
               </thead>
               <tbody className="divide-y divide-gray-100">
                 {parts.map((part, index) => (
-                  <tr key={part.id} className="hover:bg-gray-50/50 group">
-                    <td className="px-4 py-3 text-gray-400 font-mono text-xs">{index + 1}</td>
+                  <tr
+                    key={part.id}
+                    data-part-id={part.id}
+                    onClick={() => setSelectedPartId(part.id)}
+                    title={part.source ? describeProvenance(part) : undefined}
+                    className={`group ${isLowConfidence(part) ? 'bg-amber-50 hover:bg-amber-100/60' : 'hover:bg-gray-50/50'} ${
+                      part.id === selectedPartId ? 'outline outline-2 -outline-offset-2 outline-indigo-400' : ''
+                    }`}
+                  >
+                    <td className="px-4 py-3 text-gray-400 font-mono text-xs">
+                      {isLowConfidence(part) ? (
+                        <span className="flex items-center gap-1 text-amber-600">
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                          {index + 1}
+                        </span>
+                      ) : (
+                        index + 1
+                      )}
+                    </td>
                     <td className="px-4 py-3">
                       <input
                         type="text"
                         value={part.material}
                         onChange={(e) => handleMaterialChange(part.id, e.target.value)}
+                        onFocus={() => setEditingMaterialId(part.id)}
+                        onBlur={() => setEditingMaterialId(null)}
                         placeholder="1cap..."
                         className="w-full bg-transparent border-none focus:ring-0 p-0 text-gray-900 placeholder-gray-300 font-mono"
                       />
@@ -236,13 +813,58 @@ function App() {
                       />
                     </td>
                     <td className="px-4 py-3">
-                      <input
-                        type="text"
-                        value={part.description}
-                        onChange={(e) => updatePart(part.id, 'description', e.target.value)}
-                        placeholder="Descripción de la pieza"
-                        className="w-full bg-transparent border-none focus:ring-0 p-0 text-gray-900 placeholder-gray-300"
-                      />
+                      <select
+                        value={part.category ?? ''}
+                        onChange={(e) => updatePartFields(part.id, { category: (e.target.value || undefined) as SizeCategory | undefined })}
+                        className="w-full bg-transparent border-none focus:ring-0 p-0 text-xs font-bold text-slate-600"
+                      >
+                        <option value="">-</option>
+                        {SIZE_CATEGORIES.map((size) => (
+                          <option key={size} value={size} title={SIZE_NAMES[size]}>{size}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={part.grade ?? ''}
+                        onChange={(e) => updatePartFields(part.id, { grade: e.target.value || undefined })}
+                        title="Calidad del material (define el aprovechamiento)"
+                        className="w-full bg-transparent border-none focus:ring-0 p-0 text-xs font-bold text-slate-600"
+                      >
+                        <option value="">-</option>
+                        {/* Keep a grade that was removed from the settings visible */}
+                        {[...new Set([...grades, ...(part.grade ? [part.grade] : [])])].map((grade) => (
+                          <option key={grade} value={grade}>{grade}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={part.description}
+                          onChange={(e) => updatePart(part.id, 'description', e.target.value)}
+                          placeholder="Descripción de la pieza"
+                          className="w-full bg-transparent border-none focus:ring-0 p-0 text-gray-900 placeholder-gray-300"
+                        />
+                        {part.mergedLines && part.mergedLines > 1 && (
+                          <span
+                            title="Descripción unida desde varias líneas del PDF"
+                            className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-800"
+                          >
+                            {part.mergedLines} líneas
+                          </span>
+                        )}
+                        {part.outline && (
+                          <button
+                            onClick={() => updatePartFields(part.id, { outline: undefined })}
+                            title={describeOutline(part)}
+                            className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-medium bg-emerald-100 text-emerald-800 hover:bg-emerald-200"
+                          >
+                            DXF
+                          </button>
+                        )}
+                      </div>
                     </td>
                     <td className="px-4 py-3">
                       <input
@@ -253,18 +875,22 @@ function App() {
                         className="w-full bg-transparent border-none focus:ring-0 p-0 text-gray-900 placeholder-gray-300"
                       />
                     </td>
-                    <td className="px-4 py-3 text-right">
+                    <td className={`px-4 py-3 text-right ${hasInvalidDimensions(part) && !part.width ? 'bg-red-50' : ''}`}>
                       <input
                         type="number"
+                        step="any"
                         value={part.width || ''}
+                        placeholder={hasInvalidDimensions(part) ? '?' : ''}
                         onChange={(e) => updatePart(part.id, 'width', parseFloat(e.target.value) || 0)}
                         className="w-full bg-transparent border-none focus:ring-0 p-0 text-right text-gray-900 font-mono"
                       />
                     </td>
-                    <td className="px-4 py-3 text-right">
+                    <td className={`px-4 py-3 text-right ${hasInvalidDimensions(part) && !part.height ? 'bg-red-50' : ''}`}>
                       <input
                         type="number"
+                        step="any"
                         value={part.height || ''}
+                        placeholder={hasInvalidDimensions(part) ? '?' : ''}
                         onChange={(e) => updatePart(part.id, 'height', parseFloat(e.target.value) || 0)}
                         className="w-full bg-transparent border-none focus:ring-0 p-0 text-right text-gray-900 font-mono"
                       />
@@ -292,13 +918,44 @@ function App() {
           </div>
         </section>
 
+        {/* Source Document */}
+        {sourceFiles.length > 0 && (
+          <section className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden xl:sticky xl:top-8">
+            <SourceViewer
+              sources={sourceFiles}
+              parts={parts}
+              selectedPartId={selectedPartId}
+              onSelectPart={handleSourcePartSelect}
+              onCreatePart={handleCreatePartFromSource}
+            />
+          </section>
+        )}
+        </div>
+
         {/* Results Section */}
         <section className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
-          <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+          <div className="p-6 border-b border-gray-100 bg-gray-50/50 flex items-center justify-between">
             <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
               <Calculator className="w-5 h-5 text-emerald-600" />
               Resultado Procesado
             </h2>
+            <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsLabelEditorOpen(true)}
+              title="Asignar, intercambiar o unir rótulos de material"
+              className="flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <Tag className="w-4 h-4" />
+              Rótulos
+            </button>
+            <button
+              onClick={() => setIsNestingOpen(true)}
+              className="flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <LayoutGrid className="w-4 h-4" />
+              Estimar Tendido
+            </button>
+            </div>
           </div>
           
           <div className="overflow-x-auto">
@@ -309,9 +966,14 @@ function App() {
                   <th className="px-4 py-3">Rotulo Material</th>
                   <th className="px-4 py-3">Material</th>
                   <th className="px-4 py-3">Color</th>
+                  <th className="px-4 py-3 w-16">Tam.</th>
                   <th className="px-4 py-3 w-1/3">Descripción Final (Desc + Notas)</th>
-                  <th className="px-4 py-3 text-right">Área Calc.</th>
+                  <th className="px-4 py-3 text-right">Consumo</th>
                   <th className="px-4 py-3 w-16">Unidad</th>
+                  <th className="px-4 py-3 text-right">Bruto</th>
+                  <th className="px-4 py-3 text-right">Rend.</th>
+                  <th className="px-4 py-3 text-right">Perímetro (cm)</th>
+                  <th className="px-4 py-3 text-right">Costo</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
@@ -320,7 +982,10 @@ function App() {
                     <td className="px-4 py-3 text-gray-400 font-mono text-xs">{index + 1}</td>
                     <td className="px-4 py-3">
                       {part.leatherLabel ? (
-                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                        <span
+                          title={part.family}
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+                        >
                           {part.leatherLabel}
                         </span>
                       ) : (
@@ -329,26 +994,87 @@ function App() {
                     </td>
                     <td className="px-4 py-3 font-mono text-gray-700">{part.material}</td>
                     <td className="px-4 py-3 font-mono text-gray-500">{part.color}</td>
+                    <td className="px-4 py-3 text-xs font-bold text-slate-600">{part.category ?? '-'}</td>
                     <td className="px-4 py-3 text-gray-900">{part.finalDescription}</td>
                     <td className="px-4 py-3 text-right font-mono font-medium text-gray-900">
                       {part.area > 0 ? part.area : '-'}
                     </td>
-                    <td className="px-4 py-3 text-gray-500 text-xs">
+                    <td className="px-4 py-3 text-gray-500 text-xs" title={part.areaUnit !== 'N/A' ? BILLING_UNIT_NAMES[part.areaUnit] : undefined}>
                       {part.areaUnit !== 'N/A' ? part.areaUnit : ''}
+                      {part.area > 0 && isAreaUnit(part.areaUnit) && (
+                        <span
+                          title={part.areaSource === 'outline' ? 'Área real del contorno DXF' : 'Área aproximada: Ancho × Alto'}
+                          className={`block text-[10px] ${part.areaSource === 'outline' ? 'text-emerald-600' : 'text-gray-400'}`}
+                        >
+                          {part.areaSource === 'outline' ? 'DXF' : 'rect.'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono font-medium text-emerald-700">
+                      {part.grossArea > 0 ? part.grossArea : '-'}
+                    </td>
+                    <td
+                      className="px-4 py-3 text-right font-mono text-xs text-gray-500"
+                      title={part.area > 0 ? `×${part.yieldFactor.multiplier.toFixed(3)}${part.grade ? ` · Calidad ${part.grade}` : ''}` : undefined}
+                    >
+                      {part.area > 0 ? describeYield(part.yieldFactor) : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-gray-500">
+                      {part.perimeter ? (part.perimeter / 10).toFixed(1) : '-'}
+                    </td>
+                    <td
+                      className="px-4 py-3 text-right font-mono text-gray-900"
+                      title={part.unitPrice !== undefined && part.areaUnit !== 'N/A' ? `${formatMoney(part.unitPrice, priceList.currency)} / ${part.areaUnit}` : undefined}
+                    >
+                      {part.cost !== undefined ? formatMoney(part.cost, priceList.currency) : '-'}
                     </td>
                   </tr>
                 ))}
               </tbody>
+              {consumptionTotals.length > 0 && (
+                <tfoot className="bg-gray-50 border-t-2 border-gray-200 text-sm">
+                  {consumptionTotals.map((total) => (
+                    <tr key={`${total.group}|${total.unit}`}>
+                      <td></td>
+                      <td className="px-4 py-2 font-semibold text-gray-700" colSpan={5}>
+                        Total {total.group} <span className="text-xs font-normal text-gray-400">({total.parts} pieza(s))</span>
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono font-semibold text-gray-900">{total.net}</td>
+                      <td className="px-4 py-2 text-gray-500 text-xs">{total.unit}</td>
+                      <td className="px-4 py-2 text-right font-mono font-semibold text-emerald-700">{total.gross}</td>
+                      <td colSpan={3}></td>
+                    </tr>
+                  ))}
+                </tfoot>
+              )}
             </table>
           </div>
         </section>
 
+        {/* Material Costing */}
+        {costSummary.groups.length > 0 && (
+          <CostSummaryPanel
+            summary={costSummary}
+            currency={priceList.currency}
+            reference={projectInfo.reference}
+            onEditPrices={() => setIsPriceEditorOpen(true)}
+          />
+        )}
+
         {/* Instructions / Help */}
         <div className="bg-blue-50 border border-blue-100 rounded-xl p-4 text-sm text-blue-800">
           <h3 className="font-semibold mb-2">Instrucciones de Cálculo:</h3>
           <ul className="list-disc list-inside space-y-1 opacity-80">
-            <li><strong>1cap...</strong>: Se calcula en decímetros cuadrados (dm²). Fórmula: (Ancho × Alto × Cantidad) / 10000.</li>
-            <li><strong>1vaq...</strong>: Se calcula en pies cuadrados (ft²). Fórmula: (Ancho × Alto × Cantidad) / 92903.</li>
+            <li>Las <strong>reglas de material</strong> asignan a cada código su familia, grupo y unidad. Por defecto: <strong>1cap...</strong> en dm² y <strong>1vaq...</strong> en ft².</li>
+            <li>Áreas: (Ancho × Alto × Cantidad) convertido a la unidad de la regla (1 dm² = 10000 mm², 1 ft² = 92903 mm², 1 m² = 1000000 mm²).</li>
+            <li><strong>Unidades y redondeo</strong> (Σ): todas las áreas pueden mostrarse en mm², cm², dm², m², ft² o in², con los decimales y el sentido de redondeo elegidos. Pantalla y exportación usan la misma configuración.</li>
+            <li><strong>Forro, EVA, Cartón, Odena, Salpa</strong>: m². <strong>Reata, Cremallera</strong>: metros lineales (lado mayor × Cantidad). <strong>Herrajes</strong>: unidades.</li>
+            <li><strong>Bruto</strong>: consumo neto ÷ aprovechamiento de la familia y calidad (p. ej. vaqueta 78%), más el desperdicio adicional de piezas pequeñas.</li>
+            <li>Con un patrón <strong>DXF</strong>, cada contorno cerrado se asigna a la pieza cuya descripción coincide con su capa o bloque, y se usa su área real en lugar de Ancho × Alto.</li>
+            <li><strong>Rótulos</strong>: cada código conserva su rótulo (Cuero 1, Cuero 2...) en la referencia aunque se reordenen o borren filas. Los códigos nuevos toman el siguiente número libre.</li>
+            <li><strong>Biblioteca → Exportar</strong> descarga la referencia como archivo <strong>.despiece.json</strong> (piezas, rótulos, reglas de material y pedido), que se puede importar en cualquiera de las dos aplicaciones.</li>
+            <li><strong>Ctrl+Z</strong> deshace y <strong>Ctrl+Y</strong> rehace cualquier cambio en las piezas (ediciones, filas agregadas o borradas, importaciones). El historial muestra qué cambió en cada paso.</li>
+            <li>Al importar, las piezas con el mismo material, color, descripción y medidas que otra fila se muestran para <strong>sumar cantidades</strong>, mantener ambas o descartar la nueva.</li>
             <li>El código se divide usando el carácter <strong>/</strong>.</li>
             <li>Las notas se agregan automáticamente al final de la descripción.</li>
           </ul>
@@ -356,40 +1082,127 @@ function App() {
 
       </div>
 
+      {/* Spreadsheet Column Mapping */}
+      {pendingSheets.length > 0 && (
+        // Keyed so the dialog state resets for each queued file
+        <React.Fragment key={pendingSheets[0].fileName}>
+          <ColumnMappingDialog
+            data={pendingSheets[0]}
+            initialMapping={getSavedMapping(pendingSheets[0].headers) ?? guessMapping(pendingSheets[0].headers)}
+            isRemembered={getSavedMapping(pendingSheets[0].headers) !== null}
+            onConfirm={handleSheetImport}
+            onCancel={() => setPendingSheets((prev) => prev.slice(1))}
+          />
+        </React.Fragment>
+      )}
+
+      {/* Parsing Profiles Modal */}
+      {isProfileEditorOpen && (
+        <ProfileEditorModal
+          profiles={profiles}
+          onSave={handleProfilesSave}
+          onClose={() => setIsProfileEditorOpen(false)}
+        />
+      )}
+
+      {/* Material Rules Modal */}
+      {isRulesEditorOpen && (
+        <MaterialRulesModal
+          rules={materialRules}
+          onSave={handleRulesSave}
+          onClose={() => setIsRulesEditorOpen(false)}
+        />
+      )}
+
+      {/* Yield Settings Modal */}
+      {isYieldEditorOpen && (
+        <YieldSettingsModal
+          settings={yieldSettings}
+          families={[...new Set<string>(materialRules.map((r) => r.family).filter(Boolean))]}
+          onSave={handleYieldSave}
+          onClose={() => setIsYieldEditorOpen(false)}
+        />
+      )}
+
+      {/* Price List Modal */}
+      {isPriceEditorOpen && (
+        <PriceListModal
+          priceList={priceList}
+          onSave={handlePriceListSave}
+          onClose={() => setIsPriceEditorOpen(false)}
+        />
+      )}
+
+      {/* Nesting Estimate */}
+      {isNestingOpen && (
+        <NestingModal
+          parts={processedParts}
+          stockSpecs={stockSpecs}
+          onSaveSpecs={handleStockSpecsSave}
+          onClose={() => setIsNestingOpen(false)}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <ProjectLibrary
+          app="local"
+          currentId={projectId}
+          onOpen={openProject}
+          onRenamed={(id, reference) => id === projectId && setProjectInfo((prev) => ({ ...prev, reference }))}
+          onDeleted={(id) => id === projectId && startNewProject()}
+          onNew={startNewProject}
+          onExport={exportProjectFile}
+          onImport={importProjectFile}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <HistoryPanel
+          history={history}
+          onJump={(count) => restoreHistory(jumpTo(history, count))}
+          onUndo={undo}
+          onRedo={redo}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {duplicateMatches.length > 0 && (
+        <DuplicateReviewDialog
+          parts={parts}
+          matches={duplicateMatches}
+          onConfirm={handleDuplicatesResolve}
+          onCancel={() => setDuplicateMatches([])}
+        />
+      )}
+
+      {isLabelEditorOpen && (
+        <LabelMappingModal
+          mapping={labelMapping}
+          codes={labelCodes}
+          reference={projectInfo.reference}
+          onSave={handleLabelsSave}
+          onClose={() => setIsLabelEditorOpen(false)}
+        />
+      )}
+
       {/* Export Modal */}
       {isExportModalOpen && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-md">
-            <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-semibold text-gray-900">Exportar Datos</h3>
-              <button 
-                onClick={() => setIsExportModalOpen(false)}
-                className="text-gray-400 hover:text-gray-500"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-            <p className="text-gray-600 mb-6">
-              Seleccione la unidad de medida para el cálculo del área en el archivo exportado.
-            </p>
-            <div className="grid grid-cols-2 gap-4">
-              <button
-                onClick={() => handleExport('dm²')}
-                className="flex flex-col items-center justify-center p-4 border-2 border-indigo-100 rounded-xl hover:border-indigo-600 hover:bg-indigo-50 transition-all group"
-              >
-                <span className="text-2xl font-bold text-indigo-600 group-hover:scale-110 transition-transform">dm²</span>
-                <span className="text-sm text-gray-600 mt-1">Decímetros Cuadrados</span>
-              </button>
-              <button
-                onClick={() => handleExport('ft²')}
-                className="flex flex-col items-center justify-center p-4 border-2 border-emerald-100 rounded-xl hover:border-emerald-600 hover:bg-emerald-50 transition-all group"
-              >
-                <span className="text-2xl font-bold text-emerald-600 group-hover:scale-110 transition-transform">ft²</span>
-                <span className="text-sm text-gray-600 mt-1">Pies Cuadrados</span>
-              </button>
-            </div>
-          </div>
-        </div>
+        <ConsumptionSettingsModal
+          settings={consumptionSettings}
+          title="Exportar Datos"
+          confirmLabel="Exportar CSV"
+          onSave={handleExport}
+          onClose={() => setIsExportModalOpen(false)}
+        />
+      )}
+
+      {isConsumptionSettingsOpen && (
+        <ConsumptionSettingsModal
+          settings={consumptionSettings}
+          onSave={handleConsumptionSettingsSave}
+          onClose={() => setIsConsumptionSettingsOpen(false)}
+        />
       )}
     </div>
   );
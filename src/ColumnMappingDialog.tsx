@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { X, FileSpreadsheet } from 'lucide-react';
+import { ColumnMapping, SPREADSHEET_FIELDS, SPREADSHEET_FIELD_NAMES, SpreadsheetData, SpreadsheetField, rowsToParts } from './spreadsheetImporter';
+
+interface ColumnMappingDialogProps {
+  data: SpreadsheetData;
+  initialMapping: ColumnMapping;
+  isRemembered: boolean; // the mapping comes from a previous file with the same header
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+function ColumnMappingDialog({ data, initialMapping, isRemembered, onConfirm, onCancel }: ColumnMappingDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  const fieldForColumn = (index: number) => SPREADSHEET_FIELDS.find((field) => mapping[field] === index) ?? '';
+
+  const assignColumn = (index: number, field: SpreadsheetField | '') => {
+    setMapping((prev) => {
+      const next: ColumnMapping = {};
+      // A column feeds one field and a field reads one column
+      for (const key of SPREADSHEET_FIELDS) {
+        if (prev[key] !== undefined && prev[key] !== index && key !== field) next[key] = prev[key];
+      }
+      if (field) next[field] = index;
+      return next;
+    });
+  };
+
+  const importCount = rowsToParts(data, mapping).length;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-emerald-600" />
+              Columnas de {data.fileName}
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {isRemembered
+                ? 'Se aplicó el mapeo guardado para este encabezado. Revíselo antes de importar.'
+                : 'Indique qué dato contiene cada columna. El mapeo se recordará para archivos con el mismo encabezado.'}
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          <table className="w-full text-sm text-left border border-gray-100">
+            <thead className="bg-gray-50 text-gray-500 font-medium">
+              <tr>
+                {data.headers.map((header, index) => (
+                  <th key={index} className="px-3 py-2 border-b border-gray-100 align-top min-w-[140px]">
+                    <div className="text-gray-900 mb-2 truncate" title={header}>{header || `Columna ${index + 1}`}</div>
+                    <select
+                      value={fieldForColumn(index)}
+                      onChange={(e) => assignColumn(index, e.target.value as SpreadsheetField | '')}
+                      className={`w-full px-2 py-1 rounded border text-xs outline-none ${
+                        fieldForColumn(index) ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-gray-200 text-gray-500'
+                      }`}
+                    >
+                      <option value="">Ignorar</option>
+                      {SPREADSHEET_FIELDS.map((field) => (
+                        <option key={field} value={field}>{SPREADSHEET_FIELD_NAMES[field]}</option>
+                      ))}
+                    </select>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {data.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {data.headers.map((_, index) => (
+                    <td key={index} className={`px-3 py-2 font-mono text-xs ${fieldForColumn(index) ? 'text-gray-900' : 'text-gray-300'}`}>
+                      {row[index]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {data.rows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-400 mt-2">... y {data.rows.length - PREVIEW_ROWS} filas más</p>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center p-6 border-t border-gray-100">
+          <span className="text-sm text-gray-500">{importCount} pieza(s) para importar</span>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onConfirm(mapping)}
+              disabled={importCount === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Importar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ColumnMappingDialog;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { AreaUnit, ConsumptionSettings } from './types';
+import { AREA_UNITS, BILLING_UNIT_NAMES, formatConsumption, roundConsumption } from './consumption';
+
+interface ConsumptionSettingsModalProps {
+  settings: ConsumptionSettings;
+  title?: string;
+  confirmLabel?: string; // e.g. "Exportar CSV" when the dialog precedes an export
+  onSave: (settings: ConsumptionSettings) => void;
+  onClose: () => void;
+}
+
+const ROUNDING_NAMES: Record<ConsumptionSettings['rounding'], string> = {
+  nearest: 'Al más cercano',
+  up: 'Hacia arriba',
+  down: 'Hacia abajo',
+};
+
+// Shown under the form so the effect of the decimals and the rounding is obvious
+const SAMPLE_VALUE = 12.3456;
+
+function ConsumptionSettingsModal({ settings, title = 'Unidades y Redondeo', confirmLabel = 'Guardar', onSave, onClose }: ConsumptionSettingsModalProps) {
+  const [draft, setDraft] = useState<ConsumptionSettings>(() => ({ ...settings }));
+
+  const sampleUnit = draft.areaUnit ?? 'dm²';
+  const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Aplica a la pantalla y a todas las exportaciones. Metros lineales y unidades no se convierten.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          <label className="block space-y-1">
+            <span className="text-gray-500">Unidad de área</span>
+            <select
+              className={inputClass}
+              value={draft.areaUnit ?? ''}
+              onChange={(e) => setDraft({ ...draft, areaUnit: (e.target.value || null) as AreaUnit | null })}
+            >
+              <option value="">La de cada regla de material</option>
+              {AREA_UNITS.map((unit) => <option key={unit} value={unit}>{unit} · {BILLING_UNIT_NAMES[unit]}</option>)}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block space-y-1">
+              <span className="text-gray-500">Decimales</span>
+              <input
+                type="number"
+                min={0}
+                max={6}
+                className={`${inputClass} font-mono`}
+                value={draft.decimals}
+                onChange={(e) => setDraft({ ...draft, decimals: Math.max(0, Math.min(6, parseInt(e.target.value) || 0)) })}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-gray-500">Redondeo</span>
+              <select className={inputClass} value={draft.rounding} onChange={(e) => setDraft({ ...draft, rounding: e.target.value as ConsumptionSettings['rounding'] })}>
+                {Object.entries(ROUNDING_NAMES).map(([value, name]) => <option key={value} value={value}>{name}</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-gray-400 font-mono">
+            {SAMPLE_VALUE} {sampleUnit} → {formatConsumption(roundConsumption(SAMPLE_VALUE, sampleUnit, draft), sampleUnit, draft)}
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700"
+          >
+            <Save className="w-4 h-4" />
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConsumptionSettingsModal;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { DollarSign, AlertTriangle } from 'lucide-react';
+import { CostSummary, formatMoney } from './priceList';
+
+interface CostSummaryPanelProps {
+  summary: CostSummary;
+  currency: string;
+  reference: string;
+  orderSummary?: CostSummary; // same groups scaled to the order, when there is one
+  orderUnits?: number;
+  onEditPrices: () => void;
+}
+
+function CostSummaryPanel({ summary, currency, reference, orderSummary, orderUnits, onEditPrices }: CostSummaryPanelProps) {
+  const orderCost = (group: string) => orderSummary?.groups.find((g) => g.group === group)?.cost ?? 0;
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 bg-gray-50/50 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <DollarSign className="w-5 h-5 text-emerald-600" />
+          Costo de Materiales{reference ? ` · ${reference}` : ''}
+        </h2>
+        <button onClick={onEditPrices} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+          Editar precios
+        </button>
+      </div>
+
+      <div className="p-6">
+        <table className="w-full text-sm">
+          {orderSummary && (
+            <thead className="text-xs text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="pb-2 text-left font-medium" colSpan={2}>Grupo</th>
+                <th className="pb-2 text-right font-medium">Por unidad</th>
+                <th className="pb-2 text-right font-medium">Pedido ({orderUnits ?? 0} u.)</th>
+              </tr>
+            </thead>
+          )}
+          <tbody className="divide-y divide-gray-100">
+            {summary.groups.map((group) => (
+              <tr key={group.group}>
+                <td className="py-2 text-gray-700">{group.group}</td>
+                <td className="py-2 text-right text-xs text-amber-600">
+                  {group.unpriced > 0 && `${group.unpriced} pieza(s) sin precio`}
+                </td>
+                <td className="py-2 text-right font-mono text-gray-900 w-40">{formatMoney(group.cost, currency)}</td>
+                {orderSummary && (
+                  <td className="py-2 text-right font-mono text-gray-900 w-44">{formatMoney(orderCost(group.group), currency)}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-gray-200">
+              <td className="pt-3 font-semibold text-gray-900" colSpan={2}>Total por referencia</td>
+              <td className="pt-3 text-right font-mono font-bold text-emerald-700">{formatMoney(summary.total, currency)}</td>
+              {orderSummary && (
+                <td className="pt-3 text-right font-mono font-bold text-emerald-700">{formatMoney(orderSummary.total, currency)}</td>
+              )}
+            </tr>
+          </tfoot>
+        </table>
+
+        {summary.unpriced > 0 && (
+          <p className="mt-4 text-xs text-amber-700 flex items-center gap-1">
+            <AlertTriangle className="w-3.5 h-3.5" />
+            {summary.unpriced} pieza(s) sin precio en la lista: el total no las incluye.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default CostSummaryPanel;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { X, Copy } from 'lucide-react';
+import { RawPart } from './types';
+import { DUPLICATE_ACTION_NAMES, DUPLICATE_TOLERANCE_MM, DuplicateAction, DuplicateMatch } from './duplicateParts';
+
+interface DuplicateReviewDialogProps {
+  parts: RawPart[];
+  matches: DuplicateMatch[];
+  onConfirm: (actions: Record<string, DuplicateAction>) => void;
+  onCancel: () => void; // keeps every part as imported
+}
+
+const ACTIONS: DuplicateAction[] = ['merge', 'keep', 'drop'];
+
+const origin = (part: RawPart) => (part.source ? `${part.source.fileName} · pág. ${part.source.page}` : 'Ya en la tabla');
+
+function DuplicateReviewDialog({ parts, matches, onConfirm, onCancel }: DuplicateReviewDialogProps) {
+  const [actions, setActions] = useState<Record<string, DuplicateAction>>(() =>
+    Object.fromEntries(matches.map((match) => [match.partId, 'merge' as DuplicateAction])),
+  );
+
+  const setAll = (action: DuplicateAction) => setActions(Object.fromEntries(matches.map((match) => [match.partId, action])));
+
+  const rows = matches
+    .map((match) => ({ match, part: parts.find((p) => p.id === match.partId), original: parts.find((p) => p.id === match.originalId) }))
+    .filter((row): row is { match: DuplicateMatch; part: RawPart; original: RawPart } => !!row.part && !!row.original);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Copy className="w-5 h-5 text-amber-500" />
+              Posibles Piezas Duplicadas
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Estas piezas importadas tienen el mismo material, color, descripción y medidas (±{DUPLICATE_TOLERANCE_MM} mm) que otra fila.
+              Elija qué hacer con cada una.
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          <div className="flex items-center gap-2 mb-4 text-sm">
+            <span className="text-gray-500">Aplicar a todas:</span>
+            {ACTIONS.map((action) => (
+              <button key={action} onClick={() => setAll(action)} className="px-3 py-1 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50">
+                {DUPLICATE_ACTION_NAMES[action]}
+              </button>
+            ))}
+          </div>
+
+          <table className="w-full text-sm text-left border border-gray-100">
+            <thead className="bg-gray-50 text-gray-500 font-medium">
+              <tr>
+                <th className="px-3 py-2">Pieza</th>
+                <th className="px-3 py-2">Medidas</th>
+                <th className="px-3 py-2 text-right">Cant. existente</th>
+                <th className="px-3 py-2 text-right">Cant. nueva</th>
+                <th className="px-3 py-2">Acción</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ match, part, original }) => (
+                <tr key={match.partId}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{part.description}</div>
+                    <div className="text-xs text-gray-500">
+                      {[part.material, part.color].filter(Boolean).join(' / ') || '(sin material)'}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-0.5">
+                      {origin(original)} → {origin(part)}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 font-mono text-xs text-gray-700">
+                    {part.width} x {part.height} mm
+                  </td>
+                  <td className="px-3 py-2 text-right font-mono">{original.quantity}</td>
+                  <td className="px-3 py-2 text-right font-mono">{part.quantity}</td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={actions[match.partId]}
+                      onChange={(e) => setActions((prev) => ({ ...prev, [match.partId]: e.target.value as DuplicateAction }))}
+                      className="w-full px-2 py-1 rounded border border-gray-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {ACTIONS.map((action) => (
+                        <option key={action} value={action}>{DUPLICATE_ACTION_NAMES[action]}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-100">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+            Mantener todas
+          </button>
+          <button onClick={() => onConfirm(actions)} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700">
+            Aplicar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DuplicateReviewDialog;
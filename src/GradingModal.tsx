@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { X, Ruler, Trash2 } from 'lucide-react';
+import { GradingRule, GradingSettings } from './types';
+import { SIZE_CATEGORIES, SIZE_NAMES, SizeCategory } from './sizeCategories';
+import { rulesForBase } from './sizeGrading';
+
+export interface GradingPiece {
+  key: string; // identifies the piece within the reference, e.g. "CUERO 1|FRENTE"
+  name: string;
+  material: string;
+  size: SizeCategory | null;
+  measurable: boolean; // has a readable dimension to scale
+  scaleByDefault: boolean; // area-billed pieces; straps, zippers and hardware keep their length
+}
+
+interface GradingModalProps {
+  settings: GradingSettings;
+  pieces: GradingPiece[];
+  derivedCount: number; // parts already graded, replaced when generating again
+  onGenerate: (settings: GradingSettings, scaledKeys: string[]) => void;
+  onRemoveDerived: () => void;
+  onClose: () => void;
+}
+
+function GradingModal({ settings, pieces, derivedCount, onGenerate, onRemoveDerived, onClose }: GradingModalProps) {
+  const [draft, setDraft] = useState<GradingSettings>(() => ({
+    baseSize: settings.baseSize,
+    rules: rulesForBase(settings, settings.baseSize),
+  }));
+  const [scaled, setScaled] = useState<Set<string>>(
+    () => new Set(pieces.filter((p) => p.measurable && p.scaleByDefault).map((p) => p.key)),
+  );
+
+  const basePieces = pieces.filter((p) => p.size === draft.baseSize);
+
+  const changeBase = (baseSize: SizeCategory) => {
+    // Keep the steps typed so far for the sizes that are still derived
+    setDraft((prev) => ({ baseSize, rules: rulesForBase({ ...prev, rules: [...prev.rules, ...settings.rules] }, baseSize) }));
+  };
+
+  const updateRule = (size: SizeCategory, updates: Partial<GradingRule>) => {
+    setDraft((prev) => ({ ...prev, rules: prev.rules.map((r) => (r.size === size ? { ...r, ...updates } : r)) }));
+  };
+
+  const toggle = (key: string) => {
+    setScaled((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Ruler className="w-5 h-5 text-indigo-600" />
+              Escalado de Tallas
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Genera las demás tallas a partir de la talla base. Las piezas marcadas cambian de medida; las demás (herrajes, reatas, cremalleras) se copian igual.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-gray-500">Talla base</span>
+            <select className={`${inputClass} w-48`} value={draft.baseSize} onChange={(e) => changeBase(e.target.value as SizeCategory)}>
+              {SIZE_CATEGORIES.map((size) => <option key={size} value={size}>{size} ({SIZE_NAMES[size]})</option>)}
+            </select>
+          </label>
+
+          <table className="w-full text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="pb-2 pr-2">Talla</th>
+                <th className="pb-2 pr-2 w-40">Cambio</th>
+                <th className="pb-2 pr-2 w-32">Ancho</th>
+                <th className="pb-2 w-32">Alto</th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.rules.map((rule) => (
+                <tr key={rule.size}>
+                  <td className="py-1 pr-2 font-medium text-gray-700">{rule.size} ({SIZE_NAMES[rule.size]})</td>
+                  <td className="py-1 pr-2">
+                    <select className={inputClass} value={rule.mode} onChange={(e) => updateRule(rule.size, { mode: e.target.value as GradingRule['mode'] })}>
+                      <option value="percent">Porcentaje (%)</option>
+                      <option value="step">Paso fijo (mm)</option>
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      step="any"
+                      className={`${inputClass} text-right font-mono`}
+                      value={rule.width}
+                      onChange={(e) => updateRule(rule.size, { width: parseFloat(e.target.value) || 0 })}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <input
+                      type="number"
+                      step="any"
+                      className={`${inputClass} text-right font-mono`}
+                      value={rule.height}
+                      onChange={(e) => updateRule(rule.size, { height: parseFloat(e.target.value) || 0 })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400">Use valores negativos para tallas más pequeñas que la base.</p>
+
+          <div>
+            <h4 className="font-medium text-gray-700 mb-2">Piezas a escalar ({basePieces.length} en {draft.baseSize})</h4>
+            {basePieces.length === 0 ? (
+              <p className="text-gray-400">La ficha no tiene piezas en la talla {draft.baseSize}.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-1">
+                {basePieces.map((piece) => (
+                  <label key={piece.key} className={`flex items-center gap-2 ${piece.measurable ? 'text-gray-700' : 'text-gray-400'}`}>
+                    <input type="checkbox" checked={scaled.has(piece.key)} disabled={!piece.measurable} onChange={() => toggle(piece.key)} />
+                    <span className="truncate">{piece.name}</span>
+                    <span className="text-xs text-gray-400 truncate">{piece.material}{!piece.measurable && ' · sin medidas'}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-3 p-6 border-t border-gray-100">
+          <button
+            onClick={onRemoveDerived}
+            disabled={derivedCount === 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-4 h-4" />
+            Quitar escaladas ({derivedCount})
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onGenerate(draft, basePieces.filter((p) => scaled.has(p.key)).map((p) => p.key))}
+              disabled={basePieces.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Ruler className="w-4 h-4" />
+              Generar Tallas
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default GradingModal;
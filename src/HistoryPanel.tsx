@@ -0,0 +1,88 @@
+import React from 'react';
+import { X, History, Undo2, Redo2 } from 'lucide-react';
+import { EditHistory, HISTORY_LIMIT } from './editHistory';
+
+interface HistoryPanelProps {
+  history: EditHistory<unknown>;
+  onJump: (count: number) => void; // number of steps to keep applied
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString('es-CO', { timeStyle: 'short' });
+
+function HistoryPanel({ history, onJump, onUndo, onRedo, onClose }: HistoryPanelProps) {
+  const steps = [...history.past, ...history.future];
+  const applied = history.past.length;
+
+  const rowClass = (current: boolean, undone: boolean) =>
+    `w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+      current ? 'border-indigo-300 bg-indigo-50' : 'border-transparent hover:bg-gray-50'
+    } ${undone ? 'opacity-50' : ''}`;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <History className="w-5 h-5 text-indigo-600" />
+              Historial de Cambios
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Haga clic en un paso para volver a él. Ctrl+Z deshace y Ctrl+Y rehace. Se guardan los últimos {HISTORY_LIMIT} pasos.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-1 text-sm">
+          {[...steps].reverse().map((step, i) => {
+            const count = steps.length - i;
+            return (
+              <button key={step.id} onClick={() => onJump(count)} className={rowClass(count === applied, count > applied)}>
+                <div className="flex justify-between gap-3">
+                  <span className="font-medium text-gray-900">{step.label}</span>
+                  <span className="text-xs text-gray-400 shrink-0">{formatTime(step.time)}</span>
+                </div>
+                {step.detail && <div className="text-xs text-gray-500 font-mono mt-0.5">{step.detail}</div>}
+              </button>
+            );
+          })}
+          <button onClick={() => onJump(0)} className={rowClass(applied === 0, false)}>
+            <span className="text-gray-500 italic">Estado inicial</span>
+          </button>
+        </div>
+
+        <div className="flex justify-between gap-3 p-6 border-t border-gray-100">
+          <div className="flex gap-2">
+            <button
+              onClick={onUndo}
+              disabled={applied === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Undo2 className="w-4 h-4" />
+              Deshacer
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={history.future.length === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Redo2 className="w-4 h-4" />
+              Rehacer
+            </button>
+          </div>
+          <button onClick={onClose} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700">
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { X, Save, GripVertical, Plus } from 'lucide-react';
+import { LabelMapping } from './types';
+import { LabelCode, codeKey, labelNumber, releaseCode, reassignCode, separateCode, swapLabels } from './labelMappings';
+
+interface LabelMappingModalProps {
+  mapping: LabelMapping;
+  codes: LabelCode[]; // codes on the current parts
+  reference: string;
+  onSave: (mapping: LabelMapping) => void;
+  onClose: () => void;
+}
+
+type Dragged = { kind: 'code'; key: string } | { kind: 'label'; label: string };
+
+const groupOf = (label: string) => label.replace(/\s+\d+$/, '');
+
+function LabelMappingModal({ mapping, codes, reference, onSave, onClose }: LabelMappingModalProps) {
+  const [draft, setDraft] = useState<LabelMapping>(() => ({ ...mapping }));
+  const [dragged, setDragged] = useState<Dragged | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const present = new Map(codes.map((c) => [codeKey(c.code), c]));
+
+  // Labels per group, in number order, with the codes that carry them
+  const groups = new Map<string, Map<string, string[]>>();
+  for (const [key, label] of Object.entries<string>(draft)) {
+    const group = present.get(key)?.group ?? groupOf(label);
+    const labels = groups.get(group) ?? new Map<string, string[]>();
+    labels.set(label, [...(labels.get(label) ?? []), key]);
+    groups.set(group, labels);
+  }
+  const sortedLabels = (group: string) =>
+    [...(groups.get(group)?.entries() ?? [])].sort(([a], [b]) => (labelNumber(a, group) ?? Infinity) - (labelNumber(b, group) ?? Infinity));
+
+  // Group of what is being dragged: codes and labels only move within their group, or leather would add up with lining
+  const draggedGroup = () => {
+    if (dragged?.kind === 'code') return present.get(dragged.key)?.group ?? groupOf(draft[dragged.key] ?? '');
+    if (dragged?.kind === 'label') return [...groups.keys()].find((group) => groups.get(group)!.has(dragged.label));
+    return undefined;
+  };
+
+  const dropOnLabel = (label: string) => {
+    if (dragged?.kind === 'code') setDraft((prev) => reassignCode(prev, dragged.key, label));
+    if (dragged?.kind === 'label' && dragged.label !== label) setDraft((prev) => swapLabels(prev, dragged.label, label));
+    endDrag();
+  };
+
+  const dropOnNew = (group: string) => {
+    if (dragged?.kind === 'code') setDraft((prev) => separateCode(prev, dragged.key, group));
+    endDrag();
+  };
+
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const dropProps = (target: string, group: string, onDrop: () => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (draggedGroup() !== group) return; // not a drop target: the browser shows the drop as not allowed
+      e.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === target ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (draggedGroup() === group) onDrop();
+      else endDrag();
+    },
+  });
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Rótulos de Material{reference ? ` · ${reference}` : ''}</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Arrastre un código a otro rótulo para unirlos, o un rótulo sobre otro para intercambiarlos. Los códigos nuevos reciben el siguiente número libre.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+          {groups.size === 0 && <p className="text-center text-gray-400">No hay códigos con grupo de material.</p>}
+          {[...groups.keys()].sort().map((group) => (
+            <div key={group} className="space-y-2">
+              <h4 className="font-medium text-gray-700">{group}</h4>
+              {sortedLabels(group).map(([label, keys]) => (
+                <div
+                  key={label}
+                  {...dropProps(label, group, () => dropOnLabel(label))}
+                  className={`flex items-center gap-3 p-2 rounded-lg border transition-colors ${dropTarget === label ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200'}`}
+                >
+                  <span
+                    draggable
+                    onDragStart={() => setDragged({ kind: 'label', label })}
+                    onDragEnd={endDrag}
+                    title="Arrastre sobre otro rótulo para intercambiarlos"
+                    className="flex items-center gap-1 w-28 shrink-0 cursor-grab font-medium text-indigo-800"
+                  >
+                    <GripVertical className="w-4 h-4 text-gray-300" />
+                    {label}
+                  </span>
+                  <div className="flex flex-wrap gap-2">
+                    {keys.map((key) => (
+                      <span
+                        key={key}
+                        draggable
+                        onDragStart={(e) => {
+                          e.stopPropagation();
+                          setDragged({ kind: 'code', key });
+                        }}
+                        onDragEnd={endDrag}
+                        title={present.has(key) ? 'Arrastre a otro rótulo' : 'Código sin piezas en la ficha actual'}
+                        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full font-mono text-xs cursor-grab ${
+                          present.has(key) ? 'bg-indigo-100 text-indigo-800' : 'bg-gray-100 text-gray-400'
+                        }`}
+                      >
+                        {present.get(key)?.code ?? key}
+                        {!present.has(key) && (
+                          <button onClick={() => setDraft((prev) => releaseCode(prev, key))} title="Liberar el número" className="hover:text-red-500">
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div
+                {...dropProps(`new:${group}`, group, () => dropOnNew(group))}
+                className={`flex items-center gap-2 p-2 rounded-lg border border-dashed text-xs transition-colors ${
+                  dropTarget === `new:${group}` ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-gray-200 text-gray-400'
+                }`}
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Suelte aquí un código para darle un rótulo propio
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700"
+          >
+            <Save className="w-4 h-4" />
+            Guardar Rótulos
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default LabelMappingModal;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X, Save, ArrowUp, RotateCcw } from 'lucide-react';
+import { BillingUnit, MaterialRule } from './types';
+import { validatePattern } from './parsingProfiles';
+import { DEFAULT_MATERIAL_RULES, createMaterialRule, findMaterialRule } from './materialRules';
+import { BILLING_UNITS, BILLING_UNIT_NAMES } from './consumption';
+
+interface MaterialRulesModalProps {
+  rules: MaterialRule[];
+  onSave: (rules: MaterialRule[]) => void;
+  onClose: () => void;
+}
+
+function MaterialRulesModal({ rules, onSave, onClose }: MaterialRulesModalProps) {
+  const [draft, setDraft] = useState<MaterialRule[]>(() => structuredClone(rules));
+  const [testCode, setTestCode] = useState('');
+
+  const updateRule = (id: string, updates: Partial<MaterialRule>) => {
+    setDraft((prev) => prev.map((r) => (r.id === id ? { ...r, ...updates } : r)));
+  };
+
+  // Order matters: the first matching rule wins
+  const moveUp = (index: number) => {
+    setDraft((prev) => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const errors = draft
+    .map((rule, index) => {
+      const error = validatePattern(rule.pattern);
+      return error ? `Regla ${index + 1}: ${error}` : null;
+    })
+    .filter((e): e is string => e !== null);
+  const testRule = testCode.trim() ? findMaterialRule(draft, testCode) : undefined;
+
+  const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Reglas de Material</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Cada código de material se compara con los patrones en orden; la primera regla que coincide define su familia, unidad y grupo.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 text-sm">
+          <table className="w-full text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="pb-2 w-8"></th>
+                <th className="pb-2 pr-2">Patrón del código</th>
+                <th className="pb-2 pr-2">Familia</th>
+                <th className="pb-2 pr-2">Grupo (rótulo)</th>
+                <th className="pb-2 pr-2 w-44">Unidad</th>
+                <th className="pb-2 w-16"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((rule, index) => (
+                <tr key={rule.id} className={rule.id === testRule?.id ? 'bg-emerald-50' : ''}>
+                  <td className="py-1 text-gray-400 font-mono text-xs">{index + 1}</td>
+                  <td className="py-1 pr-2">
+                    <input
+                      className={`${inputClass} font-mono ${validatePattern(rule.pattern) ? 'border-red-300 bg-red-50' : ''}`}
+                      value={rule.pattern}
+                      onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                      placeholder="^1cap"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input className={inputClass} value={rule.family} onChange={(e) => updateRule(rule.id, { family: e.target.value })} placeholder="Caprino" />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input className={inputClass} value={rule.group} onChange={(e) => updateRule(rule.id, { group: e.target.value })} placeholder="Cuero" />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select
+                      className={inputClass}
+                      value={rule.unit}
+                      onChange={(e) => updateRule(rule.id, { unit: e.target.value as BillingUnit })}
+                    >
+                      {BILLING_UNITS.map((unit) => (
+                        <option key={unit} value={unit}>{unit} · {BILLING_UNIT_NAMES[unit]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => moveUp(index)}
+                        disabled={index === 0}
+                        title="Subir prioridad"
+                        className="text-gray-300 hover:text-indigo-600 disabled:invisible"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setDraft((prev) => prev.filter((r) => r.id !== rule.id))} className="text-gray-300 hover:text-red-500">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setDraft((prev) => [...prev, createMaterialRule()])}
+              className="flex items-center gap-2 px-3 py-2 text-indigo-600 hover:bg-indigo-50 rounded-lg"
+            >
+              <Plus className="w-4 h-4" />
+              Nueva Regla
+            </button>
+            <button
+              onClick={() => setDraft(structuredClone(DEFAULT_MATERIAL_RULES))}
+              className="flex items-center gap-2 px-3 py-2 text-gray-500 hover:bg-gray-50 rounded-lg"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Restaurar predeterminadas
+            </button>
+          </div>
+
+          <div className="flex items-center gap-3 bg-gray-50 rounded-lg p-3">
+            <span className="text-gray-500 shrink-0">Probar código</span>
+            <input className={`${inputClass} font-mono max-w-xs bg-white`} value={testCode} onChange={(e) => setTestCode(e.target.value)} placeholder="1vaq-Cafe" />
+            {testCode.trim() && (
+              <span className={testRule ? 'text-emerald-700' : 'text-gray-400'}>
+                {testRule ? `${testRule.family || 'Sin familia'} · ${testRule.group || 'Sin grupo'} · ${testRule.unit}` : 'Ninguna regla coincide'}
+              </span>
+            )}
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-xs space-y-1">
+              {errors.map((error, i) => <p key={i}>Patrón inválido: {error}</p>)}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={errors.length > 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Guardar Reglas
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MaterialRulesModal;
@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { X, Save, LayoutGrid, AlertTriangle } from 'lucide-react';
+import { ProcessedPart, StockSpec } from './types';
+import { isAreaUnit } from './consumption';
+import { NestingPiece, NestingResult, NestingSheet, defaultStockSpec, estimateNesting } from './nesting';
+
+interface NestingModalProps {
+  parts: ProcessedPart[];
+  stockSpecs: StockSpec[];
+  onSaveSpecs: (specs: StockSpec[]) => void;
+  onClose: () => void;
+}
+
+// Previews beyond this are summarized: many hides make the dialog unusable
+const MAX_PREVIEWS = 6;
+const PREVIEW_WIDTH = 260;
+
+// Bounding box of the DXF outline when there is one, otherwise the written dimensions
+function toNestingPiece(part: ProcessedPart): NestingPiece {
+  if (part.outline && part.outline.points.length > 0) {
+    const xs = part.outline.points.map((p) => p.x);
+    const ys = part.outline.points.map((p) => p.y);
+    return {
+      id: part.id,
+      label: part.finalDescription || part.material,
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys),
+      area: part.outline.area,
+      quantity: part.quantity,
+    };
+  }
+  return {
+    id: part.id,
+    label: part.finalDescription || part.material,
+    width: part.width,
+    height: part.height,
+    area: part.width * part.height,
+    quantity: part.quantity,
+  };
+}
+
+// Stable color per part so copies of the same piece look alike
+function pieceColor(id: string): string {
+  let hash = 0;
+  for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) % 360;
+  return `hsl(${hash}, 60%, 70%)`;
+}
+
+function NestingSheetSvg({ sheet, stock }: { sheet: NestingSheet; stock: StockSpec }) {
+  const length = stock.kind === 'roll' ? Math.max(sheet.usedLength, 1) : stock.length;
+  return (
+    <svg
+      viewBox={`0 0 ${stock.width} ${length}`}
+      width={PREVIEW_WIDTH}
+      height={(PREVIEW_WIDTH * length) / stock.width}
+      className="bg-white border border-gray-200 rounded"
+    >
+      {stock.kind === 'hide' ? (
+        <ellipse cx={stock.width / 2} cy={stock.length / 2} rx={stock.width / 2} ry={stock.length / 2} fill="#fef3c7" stroke="#d97706" strokeWidth={4} />
+      ) : (
+        <rect width={stock.width} height={length} fill="#e0e7ff" stroke="#6366f1" strokeWidth={4} />
+      )}
+      {sheet.placements.map((p, i) => (
+        <rect key={i} x={p.x} y={p.y} width={p.width} height={p.height} fill={pieceColor(p.id)} stroke="#374151" strokeWidth={2}>
+          <title>{`${p.label}${p.rotated ? ' (girada)' : ''} · ${Math.round(p.width)} × ${Math.round(p.height)} mm`}</title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
+
+function NestingModal({ parts, stockSpecs, onSaveSpecs, onClose }: NestingModalProps) {
+  // Only area-billed groups are cut from rolls or hides
+  const groups = useMemo(() => {
+    const map = new Map<string, ProcessedPart[]>();
+    for (const part of parts) {
+      if (!part.leatherLabel || !isAreaUnit(part.areaUnit)) continue;
+      map.set(part.leatherLabel, [...(map.get(part.leatherLabel) ?? []), part]);
+    }
+    return map;
+  }, [parts]);
+
+  const [selectedGroup, setSelectedGroup] = useState<string>(() => [...groups.keys()][0] ?? '');
+  const groupParts = groups.get(selectedGroup) ?? [];
+  const family = groupParts[0]?.family ?? '';
+  const [stock, setStock] = useState<StockSpec>(() => stockSpecs.find((s) => s.family === family) ?? defaultStockSpec(family));
+
+  const selectGroup = (group: string) => {
+    setSelectedGroup(group);
+    const groupFamily = groups.get(group)?.[0]?.family ?? '';
+    setStock(stockSpecs.find((s) => s.family === groupFamily) ?? defaultStockSpec(groupFamily));
+  };
+
+  const result: NestingResult | null = useMemo(
+    () => (groupParts.length > 0 && stock.width > 0 && stock.length > 0 ? estimateNesting(groupParts.map(toNestingPiece), stock) : null),
+    [groupParts, stock],
+  );
+
+  const saveStock = () => {
+    onSaveSpecs([...stockSpecs.filter((s) => s.family !== stock.family), stock]);
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none font-mono';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <LayoutGrid className="w-5 h-5 text-indigo-600" />
+              Estimación de Tendido
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Acomoda las piezas del grupo (por su rectángulo envolvente) en pieles o rollos. Es una estimación, no un trazo de corte.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {groups.size === 0 ? (
+          <p className="p-12 text-center text-gray-400 text-sm">No hay grupos de material medidos por área.</p>
+        ) : (
+          <div className="flex flex-1 overflow-hidden text-sm">
+            {/* Stock settings */}
+            <div className="w-72 border-r border-gray-100 p-6 space-y-3 overflow-y-auto">
+              <label className="block space-y-1">
+                <span className="text-gray-500">Grupo</span>
+                <select className={inputClass} value={selectedGroup} onChange={(e) => selectGroup(e.target.value)}>
+                  {[...groups.keys()].map((group) => <option key={group} value={group}>{group}</option>)}
+                </select>
+              </label>
+              <p className="text-xs text-gray-400">Familia: {family || 'Sin familia'} · {groupParts.length} pieza(s)</p>
+              <label className="block space-y-1">
+                <span className="text-gray-500">Material en</span>
+                <select className={inputClass} value={stock.kind} onChange={(e) => setStock({ ...stock, kind: e.target.value as StockSpec['kind'] })}>
+                  <option value="hide">Piel</option>
+                  <option value="roll">Rollo</option>
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-gray-500">{stock.kind === 'roll' ? 'Ancho del rollo (mm)' : 'Ancho de la piel (mm)'}</span>
+                <input type="number" min={1} className={inputClass} value={stock.width} onChange={(e) => setStock({ ...stock, width: parseFloat(e.target.value) || 0 })} />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-gray-500">{stock.kind === 'roll' ? 'Largo del rollo (mm)' : 'Largo de la piel (mm)'}</span>
+                <input type="number" min={1} className={inputClass} value={stock.length} onChange={(e) => setStock({ ...stock, length: parseFloat(e.target.value) || 0 })} />
+              </label>
+              {stock.kind === 'hide' && (
+                <label className="block space-y-1">
+                  <span className="text-gray-500">Área útil por piel (m²)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className={inputClass}
+                    value={stock.usableArea / 1000000}
+                    onChange={(e) => setStock({ ...stock, usableArea: (parseFloat(e.target.value) || 0) * 1000000 })}
+                  />
+                </label>
+              )}
+              <label className="block space-y-1">
+                <span className="text-gray-500">Separación entre piezas (mm)</span>
+                <input type="number" min={0} className={inputClass} value={stock.gap} onChange={(e) => setStock({ ...stock, gap: parseFloat(e.target.value) || 0 })} />
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={stock.allowRotation} onChange={(e) => setStock({ ...stock, allowRotation: e.target.checked })} />
+                <span className="text-gray-700">Permitir girar piezas</span>
+              </label>
+              <p className="text-xs text-gray-400">Desactívelo cuando el hilo o la dirección de estiramiento deban respetarse.</p>
+              <button
+                onClick={saveStock}
+                disabled={!family}
+                title={family ? `Guardar para la familia ${family}` : 'El grupo no tiene familia'}
+                className="flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="w-4 h-4" />
+                Guardar para {family || 'la familia'}
+              </button>
+            </div>
+
+            {/* Result */}
+            <div className="flex-1 p-6 overflow-y-auto space-y-4">
+              {result && (
+                <>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500 uppercase tracking-wider">{stock.kind === 'roll' ? 'Rollos' : 'Pieles'}</p>
+                      <p className="text-2xl font-bold text-gray-900">{result.stockCount}</p>
+                      {stock.kind === 'roll' && <p className="text-xs text-gray-500">{(result.usedLength / 1000).toFixed(2)} m lineales</p>}
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500 uppercase tracking-wider">Aprovechamiento</p>
+                      <p className="text-2xl font-bold text-emerald-700">{(result.utilization * 100).toFixed(1)}%</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500 uppercase tracking-wider">Piezas</p>
+                      <p className="text-2xl font-bold text-gray-900">{result.sheets.reduce((sum, s) => sum + s.placements.length, 0)}</p>
+                    </div>
+                  </div>
+
+                  {result.unplaced.length > 0 && (
+                    <p className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      No caben en el material: {result.unplaced.join(', ')}
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-4">
+                    {result.sheets.slice(0, MAX_PREVIEWS).map((sheet, i) => (
+                      <div key={i} className="space-y-1">
+                        <NestingSheetSvg sheet={sheet} stock={stock} />
+                        <p className="text-xs text-gray-500">
+                          {stock.kind === 'roll' ? 'Rollo' : `Piel ${i + 1}`} · {sheet.placements.length} pieza(s)
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                  {result.sheets.length > MAX_PREVIEWS && (
+                    <p className="text-xs text-gray-400">... y {result.sheets.length - MAX_PREVIEWS} pieles más</p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default NestingModal;
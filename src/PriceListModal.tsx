@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X, Save } from 'lucide-react';
+import { BillingUnit, PriceEntry, PriceList } from './types';
+import { BILLING_UNITS } from './consumption';
+import { createPriceEntry } from './priceList';
+
+interface PriceListModalProps {
+  priceList: PriceList;
+  onSave: (priceList: PriceList) => void;
+  onClose: () => void;
+}
+
+function PriceListModal({ priceList, onSave, onClose }: PriceListModalProps) {
+  const [draft, setDraft] = useState<PriceList>(() => structuredClone(priceList));
+  const [filter, setFilter] = useState('');
+
+  const updateEntry = (id: string, updates: Partial<PriceEntry>) => {
+    setDraft((prev) => ({ ...prev, entries: prev.entries.map((e) => (e.id === id ? { ...e, ...updates } : e)) }));
+  };
+
+  const visibleEntries = draft.entries.filter((e) =>
+    `${e.code} ${e.color}`.toLowerCase().includes(filter.trim().toLowerCase()),
+  );
+  const hasErrors = !draft.currency.trim() || draft.entries.some((e) => !e.code.trim() || e.price < 0);
+
+  const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Lista de Precios</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Precio por código y color. Un precio sin color aplica a todos los colores del código. El costo se calcula sobre el consumo bruto.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 text-sm">
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2">
+              <span className="text-gray-500">Moneda</span>
+              <input
+                className={`${inputClass} w-24 font-mono uppercase ${!draft.currency.trim() ? 'border-red-300 bg-red-50' : ''}`}
+                value={draft.currency}
+                onChange={(e) => setDraft((prev) => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                placeholder="COP"
+              />
+            </label>
+            <input className={`${inputClass} max-w-xs ml-auto`} value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Buscar código o color..." />
+          </div>
+
+          <table className="w-full text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="pb-2 pr-2">Código</th>
+                <th className="pb-2 pr-2">Color</th>
+                <th className="pb-2 pr-2 w-36 text-right">Precio</th>
+                <th className="pb-2 pr-2 w-24">Por</th>
+                <th className="pb-2 w-8"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="py-1 pr-2">
+                    <input
+                      className={`${inputClass} font-mono ${!entry.code.trim() ? 'border-red-300 bg-red-50' : ''}`}
+                      value={entry.code}
+                      onChange={(e) => updateEntry(entry.id, { code: e.target.value })}
+                      placeholder="1vaq-Cafe"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input className={`${inputClass} font-mono`} value={entry.color} onChange={(e) => updateEntry(entry.id, { color: e.target.value })} placeholder="Todos" />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      className={`${inputClass} text-right font-mono`}
+                      value={entry.price}
+                      onChange={(e) => updateEntry(entry.id, { price: parseFloat(e.target.value) || 0 })}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select className={inputClass} value={entry.unit} onChange={(e) => updateEntry(entry.id, { unit: e.target.value as BillingUnit })}>
+                      {BILLING_UNITS.map((unit) => <option key={unit} value={unit}>{unit}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-1">
+                    <button
+                      onClick={() => setDraft((prev) => ({ ...prev, entries: prev.entries.filter((e) => e.id !== entry.id) }))}
+                      className="text-gray-300 hover:text-red-500"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button
+            onClick={() => setDraft((prev) => ({ ...prev, entries: [...prev.entries, createPriceEntry()] }))}
+            className="flex items-center gap-2 px-3 py-2 text-indigo-600 hover:bg-indigo-50 rounded-lg"
+          >
+            <Plus className="w-4 h-4" />
+            Nuevo Precio
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={hasErrors}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Guardar Precios
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PriceListModal;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X, Save } from 'lucide-react';
+import { ParsingProfile } from './types';
+import { COLUMN_KEYS, COLUMN_NAMES, DEFAULT_PROFILE, createProfile, validatePattern } from './parsingProfiles';
+
+interface ProfileEditorModalProps {
+  profiles: ParsingProfile[];
+  onSave: (profiles: ParsingProfile[]) => void;
+  onClose: () => void;
+}
+
+// Lists are edited as comma-separated text
+const toList = (value: string) => value.split(',').map((v) => v.trim()).filter(Boolean);
+
+function ProfileEditorModal({ profiles, onSave, onClose }: ProfileEditorModalProps) {
+  const [draft, setDraft] = useState<ParsingProfile[]>(() => structuredClone(profiles));
+  const [selectedId, setSelectedId] = useState(profiles[0]?.id ?? DEFAULT_PROFILE.id);
+
+  const selected = draft.find((p) => p.id === selectedId) ?? draft[0];
+
+  const updateSelected = (updates: Partial<ParsingProfile>) => {
+    setDraft((prev) => prev.map((p) => (p.id === selected.id ? { ...p, ...updates } : p)));
+  };
+
+  const addProfile = () => {
+    const profile = createProfile(`Perfil ${draft.length + 1}`);
+    setDraft((prev) => [...prev, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const removeProfile = (id: string) => {
+    const remaining = draft.filter((p) => p.id !== id);
+    setDraft(remaining);
+    setSelectedId(remaining[0]?.id ?? '');
+  };
+
+  const patternErrors = selected
+    ? [selected.materialPattern, selected.dimensionPattern, ...selected.skipRowPatterns]
+        .map(validatePattern)
+        .filter((e): e is string => e !== null)
+    : [];
+  const hasErrors = draft.some((p) =>
+    [p.materialPattern, p.dimensionPattern, ...p.skipRowPatterns].some((pattern) => validatePattern(pattern) !== null),
+  );
+
+  const inputClass = 'w-full px-3 py-1.5 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">Perfiles de Lectura</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Profile list */}
+          <div className="w-56 border-r border-gray-100 p-4 space-y-1 overflow-y-auto">
+            {draft.map((profile) => (
+              <div
+                key={profile.id}
+                onClick={() => setSelectedId(profile.id)}
+                className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm cursor-pointer group ${
+                  profile.id === selected?.id ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="truncate">{profile.name || 'Sin nombre'}</span>
+                {draft.length > 1 && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); removeProfile(profile.id); }}
+                    className="text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={addProfile}
+              className="flex items-center gap-2 w-full px-3 py-2 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg"
+            >
+              <Plus className="w-4 h-4" />
+              Nuevo Perfil
+            </button>
+          </div>
+
+          {/* Profile form */}
+          {selected && (
+            <div className="flex-1 p-6 space-y-4 overflow-y-auto text-sm">
+              <div className="grid grid-cols-2 gap-4">
+                <label className="space-y-1">
+                  <span className="text-gray-500">Nombre</span>
+                  <input className={inputClass} value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-gray-500">Palabras clave (detección automática)</span>
+                  <input
+                    className={inputClass}
+                    defaultValue={selected.keywords.join(', ')}
+                    key={`kw-${selected.id}`}
+                    onBlur={(e) => updateSelected({ keywords: toList(e.target.value) })}
+                    placeholder="ej: CROWN, LK70"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-gray-500">Tolerancia de fila (unidades PDF)</span>
+                  <input
+                    type="number"
+                    min={1}
+                    className={inputClass}
+                    value={selected.rowTolerance}
+                    onChange={(e) => updateSelected({ rowTolerance: parseFloat(e.target.value) || DEFAULT_PROFILE.rowTolerance })}
+                  />
+                </label>
+                <div className="space-y-1">
+                  <span className="text-gray-500">Páginas</span>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      className={inputClass}
+                      value={selected.pageRange.first}
+                      onChange={(e) => updateSelected({ pageRange: { ...selected.pageRange, first: parseInt(e.target.value) || 1 } })}
+                    />
+                    <span className="text-gray-400">a</span>
+                    <input
+                      type="number"
+                      min={1}
+                      className={inputClass}
+                      value={selected.pageRange.last ?? ''}
+                      placeholder="última"
+                      onChange={(e) => updateSelected({ pageRange: { ...selected.pageRange, last: parseInt(e.target.value) || null } })}
+                    />
+                  </div>
+                </div>
+                <label className="space-y-1">
+                  <span className="text-gray-500">Patrón de código de material</span>
+                  <input
+                    className={`${inputClass} font-mono`}
+                    value={selected.materialPattern}
+                    onChange={(e) => updateSelected({ materialPattern: e.target.value })}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-gray-500">Patrón de dimensiones (ancho, alto)</span>
+                  <input
+                    className={`${inputClass} font-mono`}
+                    value={selected.dimensionPattern}
+                    onChange={(e) => updateSelected({ dimensionPattern: e.target.value })}
+                  />
+                </label>
+              </div>
+
+              <label className="block space-y-1">
+                <span className="text-gray-500">Filas a omitir (un patrón por línea: encabezados, pies de página, totales)</span>
+                <textarea
+                  rows={3}
+                  className={`${inputClass} font-mono`}
+                  value={selected.skipRowPatterns.join('\n')}
+                  onChange={(e) => updateSelected({ skipRowPatterns: e.target.value.split('\n') })}
+                />
+              </label>
+
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2">Columnas (etiquetas del encabezado, separadas por coma)</h4>
+                <div className="grid grid-cols-2 gap-3">
+                  {COLUMN_KEYS.map((key) => (
+                    <label key={key} className="flex items-center gap-3">
+                      <span className="w-32 text-gray-500 shrink-0">{COLUMN_NAMES[key]}</span>
+                      <input
+                        className={inputClass}
+                        defaultValue={selected.columnLabels[key].join(', ')}
+                        key={`${key}-${selected.id}`}
+                        onBlur={(e) => updateSelected({ columnLabels: { ...selected.columnLabels, [key]: toList(e.target.value) } })}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {patternErrors.length > 0 && (
+                <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-xs space-y-1">
+                  {patternErrors.map((error, i) => <p key={i}>Patrón inválido: {error}</p>)}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={hasErrors}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Guardar Perfiles
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ProfileEditorModal;
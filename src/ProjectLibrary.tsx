@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Library, Search, FolderOpen, Copy, Pencil, Trash2, Check, Plus, Download, Upload } from 'lucide-react';
+import { ProjectApp, SavedProject } from './types';
+import { deleteProject, duplicateProject, listProjects, matchesSearch, renameProject } from './projectStore';
+import { PROJECT_FILE_EXTENSION } from './projectFile';
+
+interface ProjectLibraryProps {
+  app: ProjectApp;
+  currentId: string | null;
+  onOpen: (project: SavedProject) => void;
+  onRenamed: (id: string, reference: string) => void; // the open project must take the new name too
+  onDeleted: (id: string) => void; // an open project must be closed, or its next autosave brings it back
+  onNew?: () => void;
+  onExport?: () => void; // downloads the open project as a portable file
+  onImport?: (file: File) => Promise<string[] | null>; // resolves with the reasons the file was rejected, or null
+  onClose: () => void;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString('es-CO', { dateStyle: 'medium', timeStyle: 'short' });
+
+function ProjectLibrary({ app, currentId, onOpen, onRenamed, onDeleted, onNew, onExport, onImport, onClose }: ProjectLibraryProps) {
+  const [projects, setProjects] = useState<SavedProject[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; reference: string } | null>(null);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () =>
+    listProjects(app)
+      .then(setProjects)
+      .catch((err) => {
+        console.error('Error reading projects:', err);
+        setError('No se pudo leer la biblioteca del navegador.');
+        setProjects([]);
+      });
+
+  useEffect(() => {
+    refresh();
+  }, [app]);
+
+  const handleDuplicate = async (project: SavedProject) => {
+    try {
+      await duplicateProject(project, `${project.projectInfo.reference || 'Sin referencia'} (copia)`);
+    } catch (err) {
+      console.error('Error duplicating project:', err);
+      setError('No se pudo duplicar la referencia.');
+    }
+    refresh();
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    try {
+      await renameProject(renaming.id, renaming.reference.trim());
+      onRenamed(renaming.id, renaming.reference.trim());
+      setRenaming(null);
+    } catch (err) {
+      console.error('Error renaming project:', err);
+      setError('No se pudo renombrar la referencia.');
+    }
+    refresh();
+  };
+
+  const handleDelete = async (project: SavedProject) => {
+    if (!window.confirm(`¿Eliminar la referencia "${project.projectInfo.reference || 'Sin referencia'}"? No se puede deshacer.`)) return;
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    } catch (err) {
+      console.error('Error deleting project:', err);
+      setError('No se pudo eliminar la referencia.');
+    }
+    refresh();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImport) return;
+    const errors = await onImport(file);
+    setImportErrors(errors && { fileName: file.name, errors });
+  };
+
+  const visible = (projects ?? []).filter((p) => matchesSearch(p, query));
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Library className="w-5 h-5 text-indigo-600" />
+              Biblioteca de Referencias
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">Los proyectos se guardan automáticamente en este navegador.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 pt-4">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Buscar por referencia o colección..."
+              className="w-full pl-9 pr-3 py-2 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </div>
+          {onNew && (
+            <button
+              onClick={onNew}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg"
+            >
+              <Plus className="w-4 h-4" />
+              Nuevo Proyecto
+            </button>
+          )}
+          {onImport && (
+            <>
+              <input ref={importInputRef} type="file" accept={`${PROJECT_FILE_EXTENSION},.json,application/json`} onChange={handleImport} className="hidden" />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                title="Abrir un proyecto exportado desde cualquiera de las dos aplicaciones"
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg"
+              >
+                <Upload className="w-4 h-4" />
+                Importar
+              </button>
+            </>
+          )}
+          {onExport && (
+            <button
+              onClick={onExport}
+              disabled={!currentId}
+              title={currentId ? 'Descargar el proyecto abierto como archivo' : 'No hay un proyecto abierto'}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              Exportar
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 text-sm">
+          {error && <p className="text-red-600 mb-4">{error}</p>}
+          {importErrors && (
+            <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-100 text-red-700">
+              <div className="flex justify-between items-start">
+                <p className="font-medium">No se pudo importar {importErrors.fileName}:</p>
+                <button onClick={() => setImportErrors(null)} className="text-red-400 hover:text-red-600">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <ul className="mt-1 max-h-40 overflow-y-auto list-disc list-inside font-mono text-xs">
+                {importErrors.errors.map((message, i) => <li key={i}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+          {projects === null ? (
+            <p className="text-center text-gray-400 py-8">Cargando...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-center text-gray-400 py-8">{projects.length === 0 ? 'Aún no hay proyectos guardados.' : 'Ninguna referencia coincide con la búsqueda.'}</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="pb-2 pr-2">Referencia</th>
+                  <th className="pb-2 pr-2">Colección</th>
+                  <th className="pb-2 pr-2 text-right">Piezas</th>
+                  <th className="pb-2 pr-2">Modificado</th>
+                  <th className="pb-2 w-40"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.map((project) => (
+                  <tr key={project.id} className={project.id === currentId ? 'bg-indigo-50/50' : ''}>
+                    <td className="py-2 pr-2 font-medium text-gray-900">
+                      {renaming?.id === project.id ? (
+                        <div className="flex items-center gap-1">
+                          <input
+                            autoFocus
+                            value={renaming.reference}
+                            onChange={(e) => setRenaming({ ...renaming, reference: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRename();
+                              if (e.key === 'Escape') setRenaming(null);
+                            }}
+                            className="w-full px-2 py-1 rounded border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                          />
+                          <button onClick={handleRename} className="text-emerald-600 hover:text-emerald-700">
+                            <Check className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <>
+                          {project.projectInfo.reference || <span className="text-gray-400">Sin referencia</span>}
+                          {project.id === currentId && <span className="ml-2 text-xs font-normal text-indigo-600">(abierto)</span>}
+                        </>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2 text-gray-600">{project.projectInfo.collection || '-'}</td>
+                    <td className="py-2 pr-2 text-right font-mono text-gray-600">{project.parts.length}</td>
+                    <td className="py-2 pr-2 text-gray-500">{formatDate(project.updatedAt)}</td>
+                    <td className="py-2">
+                      <div className="flex items-center justify-end gap-1">
+                        <button onClick={() => onOpen(project)} title="Abrir" className="p-1.5 text-indigo-600 hover:bg-indigo-50 rounded">
+                          <FolderOpen className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDuplicate(project)} title="Duplicar" className="p-1.5 text-gray-500 hover:bg-gray-100 rounded">
+                          <Copy className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setRenaming({ id: project.id, reference: project.projectInfo.reference })}
+                          title="Renombrar"
+                          className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(project)}
+                          disabled={project.id === currentId}
+                          title={project.id === currentId ? 'No se puede eliminar el proyecto abierto' : 'Eliminar'}
+                          className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ProjectLibrary;
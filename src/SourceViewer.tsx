@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { FileText, Plus, X } from 'lucide-react';
+import { BoundingBox, RawPart, TextItem } from './types';
+import { getPageTextItems, loadPdfDocument } from './pdfProcessor';
+
+interface SourceViewerProps {
+  sources: File[];
+  parts: RawPart[];
+  selectedPartId: string | null;
+  onSelectPart: (id: string) => void;
+  onCreatePart: (items: TextItem[], fileName: string, page: number) => void;
+}
+
+// Pixels per PDF unit when drawing pages in the panel
+const VIEW_SCALE = 1.1;
+
+// Images are read as A4-wide pages by the OCR step, so the same width maps boxes back onto them
+const A4_WIDTH_PT = 595;
+
+interface CssBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface ViewerPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  items: TextItem[];
+  toCssBox: (bbox: BoundingBox) => CssBox;
+  pdfPage?: PDFPageProxy;
+  imageUrl?: string;
+}
+
+async function loadPdfPages(file: File): Promise<ViewerPage[]> {
+  const pdf = await loadPdfDocument(file);
+  const pages: ViewerPage[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const pdfPage = await pdf.getPage(i);
+    const viewport = pdfPage.getViewport({ scale: VIEW_SCALE });
+    pages.push({
+      pageNumber: i,
+      width: viewport.width,
+      height: viewport.height,
+      items: await getPageTextItems(pdfPage),
+      pdfPage,
+      toCssBox: (bbox) => {
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([bbox.x, bbox.y, bbox.x + bbox.width, bbox.y + bbox.height]);
+        return { left: Math.min(x1, x2), top: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+      },
+    });
+  }
+
+  return pages;
+}
+
+async function loadImagePage(file: File): Promise<ViewerPage> {
+  const imageUrl = URL.createObjectURL(file);
+  const image = new Image();
+  image.src = imageUrl;
+  await image.decode();
+
+  const unitsPerPixel = A4_WIDTH_PT / image.naturalWidth;
+  const heightUnits = image.naturalHeight * unitsPerPixel;
+  return {
+    pageNumber: 1,
+    width: A4_WIDTH_PT * VIEW_SCALE,
+    height: heightUnits * VIEW_SCALE,
+    // OCR words aren't kept, so scanned sources only show the boxes of extracted parts
+    items: [],
+    imageUrl,
+    toCssBox: (bbox) => ({
+      left: bbox.x * VIEW_SCALE,
+      top: (heightUnits - bbox.y - bbox.height) * VIEW_SCALE,
+      width: bbox.width * VIEW_SCALE,
+      height: bbox.height * VIEW_SCALE,
+    }),
+  };
+}
+
+function PdfPageCanvas({ page }: { page: ViewerPage }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!page.pdfPage || !canvas || !context) return;
+
+    const task = page.pdfPage.render({ canvasContext: context, viewport: page.pdfPage.getViewport({ scale: VIEW_SCALE }) });
+    task.promise.catch(() => { /* cancelled when the file changes */ });
+    return () => task.cancel();
+  }, [page]);
+
+  return <canvas ref={canvasRef} width={page.width} height={page.height} className="block" />;
+}
+
+const itemKey = (page: number, index: number) => `${page}-${index}`;
+
+function SourceViewer({ sources, parts, selectedPartId, onSelectPart, onCreatePart }: SourceViewerProps) {
+  const [activeFileName, setActiveFileName] = useState<string | null>(sources[0]?.name ?? null);
+  const [pages, setPages] = useState<ViewerPage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const activeFile = sources.find((f) => f.name === activeFileName) ?? sources[0];
+  const selectedPart = parts.find((p) => p.id === selectedPartId);
+
+  // Follow the selected part to its file
+  useEffect(() => {
+    if (selectedPart?.source && selectedPart.source.fileName !== activeFile?.name) {
+      setActiveFileName(selectedPart.source.fileName);
+    }
+  }, [selectedPart]);
+
+  useEffect(() => {
+    if (!activeFile) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setSelectedItems(new Set());
+
+    const load = activeFile.type.startsWith('image/')
+      ? loadImagePage(activeFile).then((page) => [page])
+      : loadPdfPages(activeFile);
+
+    load
+      .then((loaded) => { if (!cancelled) setPages(loaded); })
+      .catch((error) => console.error('Error loading source file:', error))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [activeFile]);
+
+  useEffect(() => () => pages.forEach((page) => page.imageUrl && URL.revokeObjectURL(page.imageUrl)), [pages]);
+
+  // Scroll to the highlighted box once its page is on screen
+  useEffect(() => {
+    if (!selectedPartId) return;
+    containerRef.current
+      ?.querySelector(`[data-source-part-id="${selectedPartId}"]`)
+      ?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [selectedPartId, pages]);
+
+  const toggleItem = (key: string) => {
+    setSelectedItems((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleCreatePart = () => {
+    if (!activeFile) return;
+    const [pageNumber] = [...selectedItems][0].split('-').map(Number);
+    const page = pages.find((p) => p.pageNumber === pageNumber);
+    if (!page) return;
+    // Only items of the first selected page: a part never spans pages
+    const items = page.items.filter((_, index) => selectedItems.has(itemKey(pageNumber, index)));
+    onCreatePart(items, activeFile.name, pageNumber);
+    setSelectedItems(new Set());
+  };
+
+  if (sources.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-400 text-sm p-12">
+        <FileText className="w-10 h-10 mb-3" />
+        Sube una ficha para ver el documento original.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-100">
+        <select
+          value={activeFile?.name}
+          onChange={(e) => setActiveFileName(e.target.value)}
+          className="flex-1 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 outline-none"
+        >
+          {sources.map((file) => <option key={file.name} value={file.name}>{file.name}</option>)}
+        </select>
+        {selectedItems.size > 0 && (
+          <>
+            <button
+              onClick={handleCreatePart}
+              className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-medium hover:bg-indigo-700"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Crear pieza ({selectedItems.size})
+            </button>
+            <button onClick={() => setSelectedItems(new Set())} className="text-gray-400 hover:text-gray-600" title="Limpiar selección">
+              <X className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-auto bg-gray-100 p-4 space-y-4 max-h-[75vh]">
+        {isLoading && <p className="text-sm text-gray-500 animate-pulse">Cargando documento...</p>}
+        {pages.map((page) => {
+          const pageParts = parts.filter(
+            (p) => p.source && p.source.fileName === activeFile?.name && p.source.page === page.pageNumber,
+          );
+          return (
+            <div
+              key={page.pageNumber}
+              className="relative mx-auto bg-white shadow-sm"
+              style={{ width: page.width, height: page.height }}
+            >
+              {page.imageUrl ? (
+                <img src={page.imageUrl} alt={`Página ${page.pageNumber}`} style={{ width: page.width, height: page.height }} />
+              ) : (
+                <PdfPageCanvas page={page} />
+              )}
+
+              {/* Text items: click to pick them for a new part */}
+              {page.items.map((item, index) => {
+                const key = itemKey(page.pageNumber, index);
+                return (
+                  <div
+                    key={key}
+                    onClick={() => toggleItem(key)}
+                    title={item.str}
+                    className={`absolute cursor-pointer ${selectedItems.has(key) ? 'bg-indigo-400/30 ring-1 ring-indigo-500' : 'hover:bg-indigo-200/30'}`}
+                    style={page.toCssBox(item)}
+                  />
+                );
+              })}
+
+              {/* Extracted parts: click to select the row */}
+              {pageParts.map((part) => {
+                const isSelected = part.id === selectedPartId;
+                return (
+                  <div
+                    key={part.id}
+                    data-source-part-id={part.id}
+                    onClick={() => onSelectPart(part.id)}
+                    className={`absolute cursor-pointer border-2 rounded-sm ${
+                      isSelected ? 'border-amber-500 bg-amber-300/20' : 'border-transparent hover:border-emerald-400'
+                    }`}
+                    style={page.toCssBox(part.source!.bbox)}
+                  />
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default SourceViewer;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X, Save } from 'lucide-react';
+import { YieldEntry, YieldSettings } from './types';
+import { createYieldEntry } from './yieldFactors';
+
+interface YieldSettingsModalProps {
+  settings: YieldSettings;
+  families: string[]; // families defined in the material rules, suggested for new entries
+  onSave: (settings: YieldSettings) => void;
+  onClose: () => void;
+}
+
+// Percentages are edited as whole numbers and stored as fractions
+const toPercent = (fraction: number) => Number((fraction * 100).toFixed(2));
+const fromPercent = (value: string) => (parseFloat(value) || 0) / 100;
+
+function YieldSettingsModal({ settings, families, onSave, onClose }: YieldSettingsModalProps) {
+  const [draft, setDraft] = useState<YieldSettings>(() => structuredClone(settings));
+
+  const updateEntry = (id: string, updates: Partial<YieldEntry>) => {
+    setDraft((prev) => ({ ...prev, entries: prev.entries.map((e) => (e.id === id ? { ...e, ...updates } : e)) }));
+  };
+
+  const invalidEntries = draft.entries.filter((e) => !e.family.trim() || !(e.usable > 0 && e.usable <= 1));
+
+  const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Rendimiento y Desperdicio</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Consumo bruto = consumo neto ÷ aprovechamiento. Una entrada sin calidad aplica a todas las calidades de la familia.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+          <div>
+            <table className="w-full text-left">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="pb-2 pr-2">Familia</th>
+                  <th className="pb-2 pr-2 w-32">Calidad</th>
+                  <th className="pb-2 pr-2 w-36">Aprovechamiento (%)</th>
+                  <th className="pb-2 w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {draft.entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="py-1 pr-2">
+                      <input
+                        className={`${inputClass} ${!entry.family.trim() ? 'border-red-300 bg-red-50' : ''}`}
+                        list="yield-families"
+                        value={entry.family}
+                        onChange={(e) => updateEntry(entry.id, { family: e.target.value })}
+                        placeholder="Vaqueta"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input className={inputClass} value={entry.grade} onChange={(e) => updateEntry(entry.id, { grade: e.target.value })} placeholder="Todas" />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        step="any"
+                        className={`${inputClass} text-right font-mono ${!(entry.usable > 0 && entry.usable <= 1) ? 'border-red-300 bg-red-50' : ''}`}
+                        value={toPercent(entry.usable)}
+                        onChange={(e) => updateEntry(entry.id, { usable: fromPercent(e.target.value) })}
+                      />
+                    </td>
+                    <td className="py-1">
+                      <button
+                        onClick={() => setDraft((prev) => ({ ...prev, entries: prev.entries.filter((e) => e.id !== entry.id) }))}
+                        className="text-gray-300 hover:text-red-500"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <datalist id="yield-families">
+              {families.map((family) => <option key={family} value={family} />)}
+            </datalist>
+            <button
+              onClick={() => setDraft((prev) => ({ ...prev, entries: [...prev.entries, createYieldEntry()] }))}
+              className="flex items-center gap-2 mt-2 px-3 py-2 text-indigo-600 hover:bg-indigo-50 rounded-lg"
+            >
+              <Plus className="w-4 h-4" />
+              Nueva Entrada
+            </button>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Piezas pequeñas</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="space-y-1">
+                <span className="text-gray-500">Área menor a (cm²)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  className={`${inputClass} font-mono`}
+                  value={draft.smallPieceArea / 100}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, smallPieceArea: (parseFloat(e.target.value) || 0) * 100 }))}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-gray-500">Desperdicio adicional (%)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  className={`${inputClass} font-mono`}
+                  value={toPercent(draft.smallPieceExtra)}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, smallPieceExtra: fromPercent(e.target.value) }))}
+                />
+              </label>
+            </div>
+          </div>
+
+          {invalidEntries.length > 0 && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-xs">
+              Cada entrada necesita una familia y un aprovechamiento entre 1% y 100%.
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={invalidEntries.length > 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default YieldSettingsModal;
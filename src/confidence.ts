@@ -0,0 +1,73 @@
+import { BoundingBox, ConfidenceFlag, RawPart, TextItem } from './types';
+
+// Parts scoring below this are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+const CONFIDENCE_PENALTIES: Record<ConfidenceFlag, number> = {
+  noHeader: 0.1,
+  guessedDimensions: 0.3,
+  ambiguousQuantity: 0.15,
+  defaultQuantity: 0.1,
+  noDimensions: 0.2,
+  invalidDimensions: 0.35,
+  noMaterial: 0.25,
+  merged: 0.05,
+  ocr: 0.15,
+};
+
+export const CONFIDENCE_LABELS: Record<ConfidenceFlag, string> = {
+  noHeader: 'Sin encabezado de tabla: columnas deducidas por orden',
+  guessedDimensions: 'Medidas deducidas de números sueltos',
+  ambiguousQuantity: 'Único número de la fila tomado como cantidad',
+  defaultQuantity: 'Cantidad no encontrada, se asumió 1',
+  noDimensions: 'Sin medidas',
+  invalidDimensions: 'Medidas ilegibles: revise el documento original',
+  noMaterial: 'Sin código de material',
+  merged: 'Descripción unida desde varias líneas',
+  ocr: 'Texto leído por OCR',
+};
+
+// Fields whose edit by the user settles each flag; the table layout and OCR concern the whole row
+const FLAG_FIELDS: Record<ConfidenceFlag, (keyof RawPart)[]> = {
+  noHeader: [],
+  guessedDimensions: ['width', 'height'],
+  ambiguousQuantity: ['quantity'],
+  defaultQuantity: ['quantity'],
+  noDimensions: ['width', 'height'],
+  invalidDimensions: ['width', 'height'],
+  noMaterial: ['material'],
+  merged: ['description'],
+  ocr: [],
+};
+
+export function scoreConfidence(flags: ConfidenceFlag[]): number {
+  const score = flags.reduce((total, flag) => total - CONFIDENCE_PENALTIES[flag], 1);
+  return Number(Math.max(score, 0).toFixed(2));
+}
+
+/** Drops the flags the user has reviewed by editing their fields, and scores the part again. */
+export function reviewConfidence(part: RawPart, fields: (keyof RawPart)[]): RawPart {
+  if (!part.confidenceFlags) return part;
+  const flags = part.confidenceFlags.filter((flag) => !FLAG_FIELDS[flag].some((field) => fields.includes(field)));
+  if (flags.length === part.confidenceFlags.length) return part;
+  return { ...part, confidenceFlags: flags, confidence: scoreConfidence(flags) };
+}
+
+export function boundingBoxOf(items: TextItem[]): BoundingBox {
+  const left = Math.min(...items.map((item) => item.x));
+  const right = Math.max(...items.map((item) => item.x + item.width));
+  const bottom = Math.min(...items.map((item) => item.y));
+  const top = Math.max(...items.map((item) => item.y + item.height));
+  return { x: left, y: bottom, width: right - left, height: top - bottom };
+}
+
+export function unionBoundingBox(a: BoundingBox, b: BoundingBox): BoundingBox {
+  const left = Math.min(a.x, b.x);
+  const bottom = Math.min(a.y, b.y);
+  return {
+    x: left,
+    y: bottom,
+    width: Math.max(a.x + a.width, b.x + b.width) - left,
+    height: Math.max(a.y + a.height, b.y + b.height) - bottom,
+  };
+}
@@ -0,0 +1,157 @@
+import { AreaUnit, BillingUnit, Consumption, ConsumptionSettings, YieldSettings } from './types';
+import { NO_YIELD, resolveYield } from './yieldFactors';
+
+const STORAGE_KEY = 'despiece.consumptionSettings';
+
+export const AREA_UNITS: AreaUnit[] = ['mm²', 'cm²', 'dm²', 'm²', 'ft²', 'in²'];
+
+export const BILLING_UNITS: BillingUnit[] = [...AREA_UNITS, 'm', 'un'];
+
+export const BILLING_UNIT_NAMES: Record<BillingUnit, string> = {
+  'mm²': 'Milímetros cuadrados',
+  'cm²': 'Centímetros cuadrados',
+  'dm²': 'Decímetros cuadrados',
+  'm²': 'Metros cuadrados',
+  'ft²': 'Pies cuadrados',
+  'in²': 'Pulgadas cuadradas',
+  m: 'Metros lineales',
+  un: 'Unidades',
+};
+
+// mm² in one unit of each area unit
+const MM2_PER_UNIT: Record<AreaUnit, number> = {
+  'mm²': 1,
+  'cm²': 100,
+  'dm²': 10000,
+  'm²': 1000000,
+  'ft²': 92903.04,
+  'in²': 645.16,
+};
+
+const MAX_DECIMALS = 6;
+
+export const DEFAULT_CONSUMPTION_SETTINGS: ConsumptionSettings = { areaUnit: null, decimals: 2, rounding: 'nearest' };
+
+export function loadConsumptionSettings(): ConsumptionSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CONSUMPTION_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_CONSUMPTION_SETTINGS };
+  } catch {
+    return { ...DEFAULT_CONSUMPTION_SETTINGS };
+  }
+}
+
+export function saveConsumptionSettings(settings: ConsumptionSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function isAreaUnit(unit: BillingUnit | 'N/A'): unit is AreaUnit {
+  return (AREA_UNITS as string[]).includes(unit);
+}
+
+/** Converts a consumption between billing units; areas convert among themselves, other units only to themselves. */
+export function convertConsumption(value: number, from: BillingUnit, to: BillingUnit): number | null {
+  if (from === to) return value;
+  if (isAreaUnit(from) && isAreaUnit(to)) return (value * MM2_PER_UNIT[from]) / MM2_PER_UNIT[to];
+  return null;
+}
+
+export interface ConsumptionInput {
+  unit: BillingUnit; // unit of the material rule
+  width: number; // mm
+  height: number; // mm
+  quantity: number;
+  pieceArea?: number; // mm² of one piece when the real outline is known (DXF)
+  family?: string; // picks the yield factor, with the grade
+  grade?: string;
+}
+
+/**
+ * Net and gross consumption of `quantity` pieces in the rule's unit. Areas use the piece area when
+ * given, otherwise width × height; linear metres use the longest side; hardware is counted and has
+ * no waste. The result is not rounded: see expressConsumption.
+ */
+export function computeConsumption(input: ConsumptionInput, yieldSettings: YieldSettings): Consumption {
+  const { unit, width, height, quantity } = input;
+  if (unit === 'un') return { net: quantity, gross: quantity, unit, factor: NO_YIELD };
+
+  const pieceArea = input.pieceArea ?? width * height;
+  const net = unit === 'm' ? (Math.max(width, height) * quantity) / 1000 : (pieceArea * quantity) / MM2_PER_UNIT[unit];
+
+  // Small pieces are only known for areas
+  const factor = resolveYield(yieldSettings, input.family, input.grade, isAreaUnit(unit) ? pieceArea : undefined);
+  return { net, gross: net * factor.multiplier, unit, factor };
+}
+
+/** Unit a consumption is shown in: areas in the configured unit, lengths and counts as they are. */
+export function displayUnit(unit: BillingUnit, settings: ConsumptionSettings): BillingUnit {
+  return isAreaUnit(unit) && settings.areaUnit ? settings.areaUnit : unit;
+}
+
+/** Rounds to the configured decimals and direction; counted units are always whole. */
+export function roundConsumption(value: number, unit: BillingUnit, settings: ConsumptionSettings): number {
+  const decimals = unit === 'un' ? 0 : Math.max(0, Math.min(MAX_DECIMALS, Math.round(settings.decimals)));
+  const factor = 10 ** decimals;
+  // Drop float noise first, or 1.1 × 100 = 110.00000000000001 rounds up to 111
+  const scaled = Number((value * factor).toFixed(MAX_DECIMALS));
+  const rounded = settings.rounding === 'up' ? Math.ceil(scaled) : settings.rounding === 'down' ? Math.floor(scaled) : Math.round(scaled);
+  return rounded / factor;
+}
+
+export interface ExpressedConsumption {
+  net: number;
+  gross: number;
+  unit: BillingUnit;
+}
+
+/**
+ * The numbers both apps show and export: the consumption of `units` units of the reference,
+ * converted to the display unit and rounded.
+ */
+export function expressConsumption(consumption: Consumption, settings: ConsumptionSettings, units: number = 1): ExpressedConsumption {
+  const unit = displayUnit(consumption.unit, settings);
+  const express = (value: number) => roundConsumption(convertConsumption(value * units, consumption.unit, unit) ?? value * units, unit, settings);
+  return { net: express(consumption.net), gross: express(consumption.gross), unit };
+}
+
+export interface ConsumptionLine {
+  group: string; // e.g. "Cuero 1", "FORRO 1"
+  consumption: Consumption;
+  units?: number; // units of the reference the line is needed for, 1 by default
+}
+
+export interface ConsumptionTotal {
+  group: string;
+  unit: BillingUnit;
+  net: number;
+  gross: number;
+  parts: number;
+}
+
+/**
+ * Totals per group and display unit, in order of first appearance. A group with parts in
+ * different units (a strap billed in metres next to leather) gets one total per unit. Unrounded
+ * values are added and the total is rounded once.
+ */
+export function totalConsumption(lines: ConsumptionLine[], settings: ConsumptionSettings): ConsumptionTotal[] {
+  const totals = new Map<string, ConsumptionTotal>();
+  for (const { group, consumption, units = 1 } of lines) {
+    const unit = displayUnit(consumption.unit, settings);
+    const key = `${group}|${unit}`;
+    const total = totals.get(key) ?? { group, unit, net: 0, gross: 0, parts: 0 };
+    total.net += convertConsumption(consumption.net * units, consumption.unit, unit) ?? 0;
+    total.gross += convertConsumption(consumption.gross * units, consumption.unit, unit) ?? 0;
+    total.parts++;
+    totals.set(key, total);
+  }
+  return [...totals.values()].map((total) => ({
+    ...total,
+    net: roundConsumption(total.net, total.unit, settings),
+    gross: roundConsumption(total.gross, total.unit, settings),
+  }));
+}
+
+/** "12.40 dm²": the value with the configured decimals and its unit, for display only. */
+export function formatConsumption(value: number, unit: BillingUnit, settings: ConsumptionSettings): string {
+  return `${value.toFixed(unit === 'un' ? 0 : Math.max(0, Math.min(MAX_DECIMALS, Math.round(settings.decimals))))} ${unit}`;
+}
@@ -0,0 +1,149 @@
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in';
+
+export type DimensionResult =
+  | { ok: true; width: number; height: number; unit: LengthUnit } // width/height in mm
+  | { ok: false; text: string }; // looks like a dimension but can't be read
+
+const MM_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+};
+
+const NUMBER = '\\d+(?:[.,]\\d+)?';
+const UNIT = '(?:(?:mm|cm|m|in|pulg)(?![a-z])|"|″)';
+
+/**
+ * Default dimension pattern: width, optional unit, separator, height, optional unit.
+ * Custom patterns (parsing profiles) may use the same named groups, or plain groups 1 and 2.
+ */
+export const DIMENSION_PATTERN = `(?<w>${NUMBER})(?:\\s*(?<wu>${UNIT}))?\\s*[xX×*]\\s*(?<h>${NUMBER})(?:\\s*(?<hu>${UNIT}))?`;
+
+const DEFAULT_REGEX = new RegExp(DIMENSION_PATTERN, 'i');
+const UNIT_AFTER_REGEX = new RegExp(`^\\s*(${UNIT})`, 'i');
+const LENGTH_REGEX = new RegExp(`^\\s*(${NUMBER})\\s*(${UNIT})?\\s*$`, 'i');
+
+// Something shaped like "23,5 x" or "x 15": a dimension with a missing or unreadable side
+const PARTIAL_REGEX = new RegExp(`(?:\\d\\s*${UNIT}?\\s*[xX×*](?![a-z]))|(?:(?<![a-z])[xX×*]\\s*\\d)`, 'i');
+
+export function parseNumber(text: string): number {
+  return parseFloat(text.replace(',', '.'));
+}
+
+export function normalizeUnit(text: string | undefined): LengthUnit | undefined {
+  if (!text) return undefined;
+  const unit = text.toLowerCase();
+  if (unit === '"' || unit === '″' || unit === 'pulg') return 'in';
+  return unit as LengthUnit;
+}
+
+export function toMillimetres(value: number, unit: LengthUnit): number {
+  return Number((value * MM_PER_UNIT[unit]).toFixed(2));
+}
+
+/**
+ * Finds a "W x H" dimension in the text and returns it in millimetres. A unit written on only
+ * one side applies to both ("23,5 x 15 cm"). Returns null when the text has no dimension at all.
+ */
+export function parseDimensions(text: string, pattern: RegExp = DEFAULT_REGEX, defaultUnit: LengthUnit = 'mm'): DimensionResult | null {
+  return matchDimensions(text, pattern, defaultUnit)?.result ?? null;
+}
+
+interface DimensionMatch {
+  result: DimensionResult;
+  index: number; // where the dimension starts in the text
+  end: number; // where it ends, including a trailing unit
+}
+
+function matchDimensions(text: string, pattern: RegExp, defaultUnit: LengthUnit): DimensionMatch | null {
+  const match = text.match(pattern);
+  if (!match) {
+    const partial = text.match(PARTIAL_REGEX);
+    if (!partial) return null;
+    const index = partial.index ?? 0;
+    return { result: { ok: false, text: text.trim() }, index, end: index + partial[0].length };
+  }
+  const index = match.index ?? 0;
+  // A custom pattern may end in whitespace; counting it would take in the next token (the quantity)
+  const end = index + match[0].trimEnd().length;
+
+  const groups = match.groups ?? {};
+  const rawWidth = groups.w ?? match[1];
+  const rawHeight = groups.h ?? match[2];
+  const afterMatch = text.slice(end).match(UNIT_AFTER_REGEX);
+  const afterUnit = afterMatch?.[1];
+  const heightUnit = normalizeUnit(groups.hu ?? afterUnit);
+  const widthUnit = normalizeUnit(groups.wu) ?? heightUnit;
+  const width = rawWidth ? parseNumber(rawWidth) : NaN;
+  const height = rawHeight ? parseNumber(rawHeight) : NaN;
+
+  if (!(width > 0) || !(height > 0)) return { result: { ok: false, text: match[0].trim() }, index, end };
+
+  const unit = heightUnit ?? widthUnit ?? defaultUnit;
+  return {
+    result: {
+      ok: true,
+      width: toMillimetres(width, widthUnit ?? unit),
+      height: toMillimetres(height, unit),
+      unit,
+    },
+    index,
+    end: end + (afterMatch?.[0].length ?? 0),
+  };
+}
+
+/**
+ * Replaces the first dimension found in the text with `width x height` (mm), written in the unit
+ * the text used. Returns null when the text has no readable dimension.
+ */
+export function replaceDimensions(text: string, width: number, height: number, pattern: RegExp = DEFAULT_REGEX): string | null {
+  const found = matchDimensions(text, pattern, 'mm');
+  if (!found || !found.result.ok) return null;
+  const unit = found.result.unit;
+  const format = (mm: number) => String(Number((mm / MM_PER_UNIT[unit]).toFixed(unit === 'mm' ? 0 : 2))).replace('.', ',');
+  return `${text.slice(0, found.index)}${format(width)} x ${format(height)} ${unit}${text.slice(found.end)}`;
+}
+
+/** Reads a single length such as "23,5 cm" or "230" (in `defaultUnit`) as millimetres. */
+export function parseLength(text: string, defaultUnit: LengthUnit = 'mm'): number | null {
+  const match = text.match(LENGTH_REGEX);
+  if (!match) return null;
+  const value = parseNumber(match[1]);
+  return value > 0 ? toMillimetres(value, normalizeUnit(match[2]) ?? defaultUnit) : null;
+}
+
+/**
+ * Looks for a dimension spread over consecutive text tokens, e.g. ["23,5", "x", "15", "cm"].
+ * Returns the result and the index range [start, end) of the tokens it used.
+ */
+export function findDimensionsInTokens(
+  tokens: string[],
+  pattern: RegExp = DEFAULT_REGEX,
+  maxTokens = 5,
+): { result: DimensionResult; start: number; end: number } | null {
+  let partial: { result: DimensionResult; start: number; end: number } | null = null;
+
+  for (let start = 0; start < tokens.length; start++) {
+    // Prefer the longest window so trailing units are included
+    for (let end = Math.min(tokens.length, start + maxTokens); end > start; end--) {
+      const found = matchDimensions(tokens.slice(start, end).join(' '), pattern, 'mm');
+      // The dimension must begin in the first token of the window, or a later window will find it
+      if (!found || found.index >= tokens[start].length) continue;
+      if (found.result.ok) return { result: found.result, start, end: start + countTokensUpTo(tokens.slice(start, end), found.end) };
+      partial ??= { result: found.result, start, end: start + countTokensUpTo(tokens.slice(start, end), found.end) };
+    }
+  }
+
+  return partial;
+}
+
+// Number of tokens (joined by single spaces) needed to cover the first `length` characters
+function countTokensUpTo(tokens: string[], length: number): number {
+  let covered = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    covered += tokens[i].length + (i > 0 ? 1 : 0);
+    if (covered >= length) return i + 1;
+  }
+  return tokens.length;
+}
@@ -0,0 +1,63 @@
+import { RawPart } from './types';
+import { normalizeLabel } from './parsingProfiles';
+
+// Dimensions read from two copies of a ficha may differ by rounding or unit conversion
+export const DUPLICATE_TOLERANCE_MM = 1;
+
+export type DuplicateAction = 'merge' | 'keep' | 'drop';
+
+export const DUPLICATE_ACTION_NAMES: Record<DuplicateAction, string> = {
+  merge: 'Sumar cantidades',
+  keep: 'Mantener ambas',
+  drop: 'Descartar la nueva',
+};
+
+export interface DuplicateMatch {
+  partId: string; // the imported part
+  originalId: string; // the earlier part it repeats: already in the table, or imported before it
+}
+
+const partKey = (part: RawPart) =>
+  [part.material, part.color, part.description, part.category ?? ''].map((value) => normalizeLabel(value).replace(/\s+/g, ' ')).join('|');
+
+const near = (a: number, b: number) => Math.abs(a - b) <= DUPLICATE_TOLERANCE_MM;
+
+// A piece may be written as 200 x 300 on one page and 300 x 200 on another
+const sameSize = (a: RawPart, b: RawPart) =>
+  (near(a.width, b.width) && near(a.height, b.height)) || (near(a.width, b.height) && near(a.height, b.width));
+
+/**
+ * Imported parts that repeat an earlier part with the same material, color, description and size
+ * section, and the same dimensions. Parts without a description are never reported.
+ */
+export function findDuplicates(parts: RawPart[], importedIds: Set<string>): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  parts.forEach((part, index) => {
+    if (!importedIds.has(part.id) || !part.description.trim()) return;
+    const key = partKey(part);
+    const original = parts.slice(0, index).find((other) => partKey(other) === key && sameSize(other, part));
+    if (original) matches.push({ partId: part.id, originalId: original.id });
+  });
+  return matches;
+}
+
+/** Applies the chosen action to each match; a merged part adds its quantity to the original and goes away. */
+export function resolveDuplicates(parts: RawPart[], matches: DuplicateMatch[], actions: Record<string, DuplicateAction>): RawPart[] {
+  const removed = new Set<string>();
+  const added = new Map<string, number>();
+  const originalOf = new Map(matches.map((match) => [match.partId, match.originalId]));
+  for (const { partId, originalId } of matches) {
+    const part = parts.find((p) => p.id === partId);
+    if (!part) continue;
+    const action = actions[partId] ?? 'merge';
+    if (action === 'keep') continue;
+    removed.add(partId);
+    // The original may itself be an imported part that was merged away
+    let target = originalId;
+    while (removed.has(target) && originalOf.has(target)) target = originalOf.get(target)!;
+    if (action === 'merge') added.set(target, (added.get(target) ?? 0) + part.quantity);
+  }
+  return parts
+    .filter((p) => !removed.has(p.id))
+    .map((p) => (added.has(p.id) ? { ...p, quantity: p.quantity + added.get(p.id)! } : p));
+}
@@ -0,0 +1,296 @@
+import { PartOutline, RawPart } from './types';
+import { normalizeLabel } from './parsingProfiles';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// A closed shape read from the DXF, named after its block (if inserted) or its layer
+export interface DxfOutline {
+  name: string;
+  points: Point[]; // in mm, arcs flattened
+  area: number; // mm²
+  perimeter: number; // mm
+}
+
+interface Vertex extends Point {
+  bulge: number;
+}
+
+interface RawShape {
+  layer: string;
+  vertices: Vertex[];
+  closed: boolean;
+}
+
+type Pair = [code: number, value: string];
+
+// $INSUNITS header values we support, as mm per drawing unit
+const MM_PER_INSUNIT: Record<number, number> = {
+  1: 25.4, // inches
+  4: 1, // millimetres
+  5: 10, // centimetres
+  6: 1000, // metres
+};
+
+// Arcs are flattened into straight segments of at most this angle (area error under 0.01%)
+const ARC_STEP = Math.PI / 90;
+
+export function isDxfFile(file: File): boolean {
+  return /\.dxf$/i.test(file.name);
+}
+
+export async function readDxfOutlines(file: File): Promise<DxfOutline[]> {
+  return parseDxf(await file.text());
+}
+
+/** Reads the closed outlines of a DXF drawing: LWPOLYLINE, POLYLINE and CIRCLE, including those inside inserted blocks. */
+export function parseDxf(text: string): DxfOutline[] {
+  const pairs = toPairs(text);
+  const scale = MM_PER_INSUNIT[readInsUnits(pairs)] ?? 1;
+  const blocks = new Map<string, RawShape[]>();
+  const outlines: DxfOutline[] = [];
+
+  let section = '';
+  let currentBlock: string | null = null;
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+    if (code !== 0) continue;
+
+    if (value === 'SECTION') {
+      section = pairs[i + 1]?.[1] ?? '';
+      continue;
+    }
+    if (section === 'BLOCKS' && value === 'BLOCK') {
+      currentBlock = readEntity(pairs, i).get(2)?.[0] ?? null;
+      if (currentBlock) blocks.set(currentBlock, []);
+      continue;
+    }
+    if (value === 'ENDBLK') {
+      currentBlock = null;
+      continue;
+    }
+    if (section !== 'BLOCKS' && section !== 'ENTITIES') continue;
+
+    const shape = readShape(pairs, i, value);
+    if (shape) {
+      if (section === 'BLOCKS' && currentBlock) blocks.get(currentBlock)!.push(shape);
+      else if (section === 'ENTITIES' && shape.closed) outlines.push(toOutline(shape.layer, shape.vertices, scale));
+      continue;
+    }
+
+    // Block instance: every closed shape of the block is named after the block
+    if (section === 'ENTITIES' && value === 'INSERT') {
+      const entity = readEntity(pairs, i);
+      const name = entity.get(2)?.[0] ?? '';
+      const transform = {
+        x: num(entity, 10),
+        y: num(entity, 20),
+        scaleX: num(entity, 41, 1),
+        scaleY: num(entity, 42, 1),
+        rotation: (num(entity, 50) * Math.PI) / 180,
+      };
+      for (const blockShape of blocks.get(name) ?? []) {
+        if (!blockShape.closed) continue;
+        const vertices = blockShape.vertices.map((v) => {
+          const sx = v.x * transform.scaleX;
+          const sy = v.y * transform.scaleY;
+          return {
+            x: transform.x + sx * Math.cos(transform.rotation) - sy * Math.sin(transform.rotation),
+            y: transform.y + sx * Math.sin(transform.rotation) + sy * Math.cos(transform.rotation),
+            // Mirroring flips the arc direction
+            bulge: transform.scaleX * transform.scaleY < 0 ? -v.bulge : v.bulge,
+          };
+        });
+        outlines.push(toOutline(name, vertices, scale));
+      }
+    }
+  }
+
+  return outlines.filter((outline) => outline.area > 0);
+}
+
+function toPairs(text: string): Pair[] {
+  const lines = text.split(/\r?\n/);
+  const pairs: Pair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([parseInt(lines[i].trim(), 10), lines[i + 1].trim()]);
+  }
+  return pairs;
+}
+
+function readInsUnits(pairs: Pair[]): number {
+  const index = pairs.findIndex(([code, value]) => code === 9 && value === '$INSUNITS');
+  return index === -1 ? 4 : parseInt(pairs[index + 1]?.[1] ?? '4', 10);
+}
+
+// Group codes of the entity starting at `start`, up to the next code 0. Repeated codes keep every value.
+function readEntity(pairs: Pair[], start: number): Map<number, string[]> {
+  const entity = new Map<number, string[]>();
+  for (let i = start + 1; i < pairs.length && pairs[i][0] !== 0; i++) {
+    const [code, value] = pairs[i];
+    entity.set(code, [...(entity.get(code) ?? []), value]);
+  }
+  return entity;
+}
+
+function num(entity: Map<number, string[]>, code: number, fallback = 0): number {
+  const value = parseFloat(entity.get(code)?.[0] ?? '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function readShape(pairs: Pair[], start: number, type: string): RawShape | null {
+  if (type === 'LWPOLYLINE') {
+    const vertices: Vertex[] = [];
+    let layer = '';
+    let closed = false;
+    for (let i = start + 1; i < pairs.length && pairs[i][0] !== 0; i++) {
+      const [code, value] = pairs[i];
+      if (code === 8) layer = value;
+      else if (code === 70) closed = (parseInt(value, 10) & 1) === 1;
+      else if (code === 10) vertices.push({ x: parseFloat(value), y: 0, bulge: 0 });
+      else if (code === 20 && vertices.length) vertices[vertices.length - 1].y = parseFloat(value);
+      else if (code === 42 && vertices.length) vertices[vertices.length - 1].bulge = parseFloat(value);
+    }
+    return { layer, vertices, closed: closed || isSamePoint(vertices[0], vertices[vertices.length - 1]) };
+  }
+
+  if (type === 'POLYLINE') {
+    const header = readEntity(pairs, start);
+    const vertices: Vertex[] = [];
+    for (let i = start + 1; i < pairs.length; i++) {
+      if (pairs[i][0] !== 0) continue;
+      if (pairs[i][1] === 'SEQEND') break;
+      if (pairs[i][1] === 'VERTEX') {
+        const vertex = readEntity(pairs, i);
+        vertices.push({ x: num(vertex, 10), y: num(vertex, 20), bulge: num(vertex, 42) });
+      }
+    }
+    const closed = (num(header, 70) & 1) === 1;
+    return { layer: header.get(8)?.[0] ?? '', vertices, closed: closed || isSamePoint(vertices[0], vertices[vertices.length - 1]) };
+  }
+
+  if (type === 'CIRCLE') {
+    const entity = readEntity(pairs, start);
+    const cx = num(entity, 10);
+    const cy = num(entity, 20);
+    const r = num(entity, 40);
+    // Two half-circle arcs (bulge 1 = 180°)
+    return {
+      layer: entity.get(8)?.[0] ?? '',
+      vertices: [{ x: cx - r, y: cy, bulge: 1 }, { x: cx + r, y: cy, bulge: 1 }],
+      closed: true,
+    };
+  }
+
+  return null;
+}
+
+function isSamePoint(a?: Point, b?: Point): boolean {
+  return !!a && !!b && a !== b && Math.abs(a.x - b.x) < 1e-6 && Math.abs(a.y - b.y) < 1e-6;
+}
+
+// Flattens bulge arcs into points, then measures the polygon
+function toOutline(name: string, vertices: Vertex[], scale: number): DxfOutline {
+  const points: Point[] = [];
+
+  vertices.forEach((vertex, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    points.push({ x: vertex.x * scale, y: vertex.y * scale });
+    if (!vertex.bulge || !next) return;
+
+    // Bulge = tan(θ/4), θ being the included angle of the arc from this vertex to the next
+    const theta = 4 * Math.atan(vertex.bulge);
+    const chord = Math.hypot(next.x - vertex.x, next.y - vertex.y);
+    if (chord === 0) return;
+    const radius = chord / (2 * Math.sin(theta / 2));
+    const midX = (vertex.x + next.x) / 2;
+    const midY = (vertex.y + next.y) / 2;
+    // Centre sits on the chord's perpendicular bisector
+    const offset = radius * Math.cos(theta / 2);
+    const cx = midX - (offset * (next.y - vertex.y)) / chord;
+    const cy = midY + (offset * (next.x - vertex.x)) / chord;
+    const startAngle = Math.atan2(vertex.y - cy, vertex.x - cx);
+    const segments = Math.ceil(Math.abs(theta) / ARC_STEP);
+    for (let s = 1; s < segments; s++) {
+      const angle = startAngle + (theta * s) / segments;
+      points.push({ x: (cx + Math.abs(radius) * Math.cos(angle)) * scale, y: (cy + Math.abs(radius) * Math.sin(angle)) * scale });
+    }
+  });
+
+  // Drop the duplicated closing point so the shoelace formula isn't skewed
+  if (points.length > 1 && isSamePoint(points[0], points[points.length - 1])) points.pop();
+
+  let doubleArea = 0;
+  let perimeter = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    doubleArea += p.x * q.y - q.x * p.y;
+    perimeter += Math.hypot(q.x - p.x, q.y - p.y);
+  });
+
+  return { name, points, area: Math.abs(doubleArea) / 2, perimeter };
+}
+
+// Layer and block names often use underscores or dashes for spaces: "VISTA_LATERAL"
+function normalizeName(name: string): string {
+  return normalizeLabel(name.replace(/[_-]+/g, ' ')).replace(/\s+/g, ' ');
+}
+
+// Layer "0" is the DXF default and "*U12"-style blocks are anonymous: neither names a piece, nor does a bare number
+const isPieceName = (name: string) => name.trim() !== '0' && !name.trim().startsWith('*') && /\p{L}/u.test(name);
+
+// "talon" is in "refuerzo talon" but not in "talonera": names match on whole words only
+const containsWords = (text: string, words: string) => ` ${text} `.includes(` ${words} `);
+
+/**
+ * Attaches to each part the outline whose name matches its description (exact match first,
+ * then one whose words appear whole in the other). Outlines on the default layer or without a name are skipped. When several shapes share a name, the largest is the piece.
+ * Returns the updated parts and the outlines no part matched.
+ */
+export function matchOutlinesToParts(
+  parts: RawPart[],
+  outlines: DxfOutline[],
+  fileName: string,
+): { parts: RawPart[]; matchedCount: number; unmatched: DxfOutline[] } {
+  const byName = new Map<string, DxfOutline>();
+  for (const outline of outlines) {
+    const key = normalizeName(outline.name);
+    if (!key || !isPieceName(outline.name)) continue;
+    const existing = byName.get(key);
+    if (!existing || outline.area > existing.area) byName.set(key, outline);
+  }
+
+  const used = new Set<string>();
+  let matchedCount = 0;
+  const findOutline = (description: string) => {
+    const target = normalizeName(description);
+    if (!target) return undefined;
+    if (byName.has(target)) return [target, byName.get(target)!] as const;
+    return [...byName.entries()].find(([name]) => containsWords(target, name) || containsWords(name, target));
+  };
+
+  const updated = parts.map((part) => {
+    const found = findOutline(part.description);
+    if (!found) return part;
+    const [key, outline] = found;
+    used.add(key);
+    matchedCount++;
+    const patternOutline: PartOutline = {
+      name: outline.name,
+      fileName,
+      area: Number(outline.area.toFixed(2)),
+      perimeter: Number(outline.perimeter.toFixed(2)),
+      points: outline.points,
+    };
+    return { ...part, outline: patternOutline };
+  });
+
+  return {
+    parts: updated,
+    matchedCount,
+    unmatched: [...byName.entries()].filter(([key]) => !used.has(key)).map(([, outline]) => outline),
+  };
+}
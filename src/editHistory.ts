@@ -0,0 +1,89 @@
+// Steps kept for undo; the oldest are dropped beyond this
+export const HISTORY_LIMIT = 100;
+
+export interface HistoryStep<T> {
+  id: string;
+  label: string; // what was done, e.g. "Color de Capellada"
+  detail: string; // what changed, e.g. "café → negro"
+  before: T;
+  after: T;
+  mergeKey?: string; // consecutive steps with the same key (typing in one cell) become a single step
+  time: number;
+}
+
+export interface EditHistory<T> {
+  past: HistoryStep<T>[]; // oldest first; the last one is what undo reverts
+  future: HistoryStep<T>[]; // next first: what redo applies
+}
+
+export interface StepInput<T> {
+  label: string;
+  before: T;
+  after: T;
+  mergeKey?: string;
+  describe?: (before: T, after: T) => string; // called again when the step absorbs another one
+}
+
+export const emptyHistory = <T>(): EditHistory<T> => ({ past: [], future: [] });
+
+/** Adds a step and drops the redo steps, which no longer apply after a new edit. */
+export function recordStep<T>(history: EditHistory<T>, input: StepInput<T>): EditHistory<T> {
+  const last = history.past[history.past.length - 1];
+  const merge = input.mergeKey !== undefined && last?.mergeKey === input.mergeKey && history.future.length === 0;
+  const before = merge ? last.before : input.before;
+  const step: HistoryStep<T> = {
+    id: merge ? last.id : crypto.randomUUID(),
+    label: input.label,
+    detail: input.describe?.(before, input.after) ?? '',
+    before,
+    after: input.after,
+    mergeKey: input.mergeKey,
+    time: Date.now(),
+  };
+  const past = merge ? [...history.past.slice(0, -1), step] : [...history.past, step];
+  return { past: past.slice(-HISTORY_LIMIT), future: [] };
+}
+
+/** Reverts the last step, or returns null when there is nothing to undo. */
+export function undoStep<T>(history: EditHistory<T>): { history: EditHistory<T>; state: T } | null {
+  const step = history.past[history.past.length - 1];
+  if (!step) return null;
+  return { history: { past: history.past.slice(0, -1), future: [{ ...step, mergeKey: undefined }, ...history.future] }, state: step.before };
+}
+
+/** Applies the next undone step again, or returns null when there is nothing to redo. */
+export function redoStep<T>(history: EditHistory<T>): { history: EditHistory<T>; state: T } | null {
+  const [step, ...future] = history.future;
+  if (!step) return null;
+  return { history: { past: [...history.past, step], future }, state: step.after };
+}
+
+/**
+ * Undoes or redoes as many steps as needed so that `count` steps are applied, e.g. 0 for the
+ * state before the first step. Returns null when nothing changes.
+ */
+export function jumpTo<T>(history: EditHistory<T>, count: number): { history: EditHistory<T>; state: T } | null {
+  const steps = [...history.past, ...history.future];
+  if (count === history.past.length || count < 0 || count > steps.length) return null;
+  return {
+    history: { past: steps.slice(0, count), future: steps.slice(count) },
+    state: count > history.past.length ? steps[count - 1].after : steps[count].before,
+  };
+}
+
+/**
+ * Ctrl+Z undoes, Ctrl+Y or Ctrl+Shift+Z redoes (Cmd on Mac). Keys typed inside a dialog (marked
+ * role="dialog") are left alone, so undoing a text field there never reverts the parts.
+ */
+export function historyShortcut(e: KeyboardEvent): 'undo' | 'redo' | null {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  if (e.target instanceof Element && e.target.closest('[role="dialog"]')) return null;
+  const key = e.key.toLowerCase();
+  if (key === 'z') return e.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && !e.shiftKey) return 'redo';
+  return null;
+}
+
+// How a field value reads in a step detail
+export const formatHistoryValue = (value: unknown): string =>
+  value === undefined || value === null || value === '' ? '(vacío)' : typeof value === 'number' ? String(Number(value.toFixed(2))) : `"${value}"`;
@@ -0,0 +1,89 @@
+import { LabelMapping, MaterialRule, RawPart } from './types';
+import { findMaterialRule } from './materialRules';
+
+const STORAGE_KEY = 'despiece.labelMappings';
+
+export interface LabelCode {
+  code: string; // as written on the parts
+  group: string; // display group of its material rule, e.g. "Cuero"
+}
+
+export const codeKey = (code: string) => code.trim().toLowerCase();
+
+function loadAll(): Record<string, LabelMapping> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Mapping saved for a reference, or null when the reference has none yet. */
+export function loadLabelMapping(reference: string): LabelMapping | null {
+  return loadAll()[reference.trim()] ?? null;
+}
+
+export function saveLabelMapping(reference: string, mapping: LabelMapping): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadAll(), [reference.trim()]: mapping }));
+}
+
+/** Distinct codes of the parts that get a label: those whose rule has a display group. */
+export function collectLabelCodes(parts: RawPart[], rules: MaterialRule[]): LabelCode[] {
+  const codes = new Map<string, LabelCode>();
+  for (const part of parts) {
+    const code = part.material.trim();
+    const rule = findMaterialRule(rules, code);
+    if (rule?.group && !codes.has(codeKey(code))) codes.set(codeKey(code), { code, group: rule.group });
+  }
+  return [...codes.values()];
+}
+
+// Number of a label in its group ("Cuero 12" → 12), or null for a label of another group
+export function labelNumber(label: string, group: string): number | null {
+  const match = label.match(/^(.*)\s+(\d+)$/);
+  return match && match[1] === group ? parseInt(match[2], 10) : null;
+}
+
+/** Lowest number of the group not used by any code of the mapping, including codes no longer on a part. */
+export function nextFreeLabel(mapping: LabelMapping, group: string): string {
+  const used = new Set(Object.values(mapping).map((label) => labelNumber(label, group)));
+  let next = 1;
+  while (used.has(next)) next++;
+  return `${group} ${next}`;
+}
+
+/** Gives every code without a label the next free number of its group; existing labels never change. */
+export function assignLabels(codes: LabelCode[], mapping: LabelMapping): LabelMapping {
+  const next = { ...mapping };
+  for (const { code, group } of codes) {
+    if (!next[codeKey(code)]) next[codeKey(code)] = nextFreeLabel(next, group);
+  }
+  return next;
+}
+
+/** Moves a code to another label; when the label already has codes, they are merged. */
+export function reassignCode(mapping: LabelMapping, code: string, label: string): LabelMapping {
+  return { ...mapping, [codeKey(code)]: label };
+}
+
+/** Takes a merged code out to a label of its own. */
+export function separateCode(mapping: LabelMapping, code: string, group: string): LabelMapping {
+  const key = codeKey(code);
+  const { [key]: current, ...rest } = mapping;
+  const shared = Object.values(rest).includes(current);
+  return shared ? { ...rest, [key]: nextFreeLabel(rest, group) } : mapping;
+}
+
+/** Exchanges two labels, e.g. to make the body leather "Cuero 1". */
+export function swapLabels(mapping: LabelMapping, a: string, b: string): LabelMapping {
+  return Object.fromEntries(
+    Object.entries(mapping).map(([key, label]) => [key, label === a ? b : label === b ? a : label]),
+  );
+}
+
+/** Forgets a code so its number can be given to a new one. */
+export function releaseCode(mapping: LabelMapping, code: string): LabelMapping {
+  const { [codeKey(code)]: _removed, ...rest } = mapping;
+  return rest;
+}
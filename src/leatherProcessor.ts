@@ -1,58 +1,90 @@
-import { RawPart, ProcessedPart } from './types';
+import { BillingUnit, Consumption, ConsumptionSettings, LabelMapping, MaterialRule, RawPart, ProcessedPart, YieldFactor, YieldSettings } from './types';
+import { findMaterialRule } from './materialRules';
+import { computeConsumption, expressConsumption } from './consumption';
+import { NO_YIELD } from './yieldFactors';
+import { assignLabels, codeKey, collectLabelCodes } from './labelMappings';
+import { getCategoryPriority } from './sizeCategories';
 
-export function processParts(parts: RawPart[]): ProcessedPart[] {
-  const leatherMap = new Map<string, string>();
-  let leatherCounter = 1;
+export function processParts(
+  parts: RawPart[],
+  rules: MaterialRule[],
+  yieldSettings: YieldSettings,
+  settings: ConsumptionSettings,
+  labelMapping: LabelMapping,
+): ProcessedPart[] {
+  // Labels come from the reference's mapping, so they don't move when rows are reordered or deleted
+  const labels = assignLabels(collectLabelCodes(parts, rules), labelMapping);
 
   return parts.map((part) => {
-    const { material, color, description, notes, width, height, quantity } = part;
+    const { material, description, notes, width, height, quantity } = part;
 
-    // 2. Merge Notes
+    // 1. Merge Notes
     const finalDescription = notes ? `${description} ${notes}`.trim() : description;
 
-    // 3. Identify Leather and Label
+    // 2. Identify the material family and label from the rules
     let leatherLabel: string | undefined;
     let area = 0;
-    let areaUnit: 'dm²' | 'ft²' | 'N/A' = 'N/A';
+    let grossArea = 0;
+    let areaUnit: BillingUnit | 'N/A' = 'N/A';
+    let yieldFactor: YieldFactor = NO_YIELD;
+    let consumption: Consumption | undefined;
 
     // Use material directly (trim just in case)
     const codePart1 = material.trim();
-    
-    const lowerMaterial = codePart1.toLowerCase();
-    const isCaprino = lowerMaterial.startsWith('1cap');
-    const isVacuno = lowerMaterial.startsWith('1vaq');
-
-    if (isCaprino || isVacuno) {
-      // Determine label based on unique code (Part 1 usually identifies the material base)
-      const materialKey = codePart1.toLowerCase();
-      
-      if (!leatherMap.has(materialKey)) {
-        leatherMap.set(materialKey, `Cuero ${leatherCounter}`);
-        leatherCounter++;
-      }
-      leatherLabel = leatherMap.get(materialKey);
-
-      // 4. Calculate Area
-      // Input dimensions are in mm
-      const totalAreaMm2 = width * height * quantity;
-
-      if (isCaprino) {
-        // dm² calculation (1 dm² = 100 cm² = 10000 mm²)
-        area = totalAreaMm2 / 10000;
-        areaUnit = 'dm²';
-      } else if (isVacuno) {
-        // ft² calculation (1 ft² ≈ 929.03 cm² = 92903 mm²)
-        area = totalAreaMm2 / 92903.04;
-        areaUnit = 'ft²';
-      }
+    const rule = findMaterialRule(rules, codePart1);
+
+    if (rule) {
+      // One label per code, numbered within its display group (Cuero 1, Cuero 2, Forro 1...); merged codes share one
+      if (rule.group) leatherLabel = labels[codeKey(codePart1)];
+
+      // 3. Net and gross consumption in the rule's billing unit: area (leather, sheets), linear metres (straps, zippers) or units (hardware)
+      // Input dimensions are in mm; a DXF outline gives the real piece area instead of the bounding rectangle
+      consumption = computeConsumption(
+        { unit: rule.unit, width, height, quantity, pieceArea: part.outline?.area, family: rule.family, grade: part.grade },
+        yieldSettings,
+      );
+      yieldFactor = consumption.factor;
+
+      // 4. Shown and exported in the configured unit and rounding
+      const expressed = expressConsumption(consumption, settings);
+      area = expressed.net;
+      grossArea = expressed.gross;
+      areaUnit = expressed.unit;
     }
 
     return {
       ...part,
       finalDescription,
       leatherLabel,
-      area: Number(area.toFixed(2)),
+      family: rule?.family,
+      area,
       areaUnit,
+      areaSource: part.outline ? 'outline' : 'rectangle',
+      grossArea,
+      yieldFactor,
+      consumption,
+      perimeter: part.outline ? Number((part.outline.perimeter * quantity).toFixed(2)) : undefined,
     };
   });
 }
+
+/** Result order: labelled parts by label (Cuero 1, Cuero 2, Forro 1...), then other materials, then size DC > FC > HC. */
+export function sortProcessedParts(parts: ProcessedPart[]): ProcessedPart[] {
+  return [...parts].sort((a, b) => {
+    // 1. Parts matched by a material rule before everything else
+    if (!!a.leatherLabel !== !!b.leatherLabel) return a.leatherLabel ? -1 : 1;
+
+    // 2. Material group
+    const groupA = a.leatherLabel ?? a.material;
+    const groupB = b.leatherLabel ?? b.material;
+    const groupComp = groupA.localeCompare(groupB, undefined, { numeric: true, sensitivity: 'base' });
+    if (groupComp !== 0) return groupComp;
+
+    // 3. Size
+    const catComp = getCategoryPriority(a.category) - getCategoryPriority(b.category);
+    if (catComp !== 0) return catComp;
+
+    // 4. Description
+    return a.description.localeCompare(b.description);
+  });
+}
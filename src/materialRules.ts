@@ -0,0 +1,92 @@
+import { MaterialRule } from './types';
+import { compilePattern } from './parsingProfiles';
+
+const STORAGE_KEY = 'despiece.materialRules';
+
+// Leather codes first; the rest also match the group names of the Gemini prompt ("FORRO 1", "REATA"...)
+export const DEFAULT_MATERIAL_RULES: MaterialRule[] = [
+  { id: 'caprino', pattern: '^1cap', family: 'Caprino', unit: 'dm²', group: 'Cuero' },
+  { id: 'vaqueta', pattern: '^1vaq', family: 'Vaqueta', unit: 'ft²', group: 'Cuero' },
+  { id: 'cuero', pattern: '^cuero', family: 'Cuero', unit: 'dm²', group: 'Cuero' },
+  { id: 'forro', pattern: '^forro', family: 'Forro', unit: 'm²', group: 'Forro' },
+  { id: 'eva', pattern: '^eva', family: 'EVA', unit: 'm²', group: 'EVA' },
+  { id: 'carton', pattern: '^cart[oó]n', family: 'Cartón', unit: 'm²', group: 'Cartón' },
+  { id: 'odena', pattern: '^odena', family: 'Odena', unit: 'm²', group: 'Odena' },
+  { id: 'salpa', pattern: '^salpa', family: 'Salpa', unit: 'm²', group: 'Salpa' },
+  { id: 'reata', pattern: '^reata', family: 'Reata', unit: 'm', group: 'Reata' },
+  { id: 'cremallera', pattern: '^cremallera', family: 'Cremallera', unit: 'm', group: 'Cremallera' },
+  {
+    id: 'herraje',
+    pattern: '^(herraje|hebilla|argolla|broche|remache|mosquet[oó]n|im[aá]n|pasador|terminal|cursor|deslizador)',
+    family: 'Herraje',
+    unit: 'un',
+    group: 'Herraje',
+  },
+];
+
+// Bump when default rules are added, and record the version that brought each one in DEFAULT_RULE_VERSIONS
+const MATERIAL_RULES_VERSION = 2;
+
+// Version 1 is the plain list saved before the rules had a version, when the defaults were the two leathers
+const DEFAULT_RULE_VERSIONS: Record<string, number> = {
+  caprino: 1,
+  vaqueta: 1,
+  cuero: 2,
+  forro: 2,
+  eva: 2,
+  carton: 2,
+  odena: 2,
+  salpa: 2,
+  reata: 2,
+  cremallera: 2,
+  herraje: 2,
+};
+
+interface StoredMaterialRules {
+  version: number;
+  rules: MaterialRule[];
+}
+
+/**
+ * Adds the default rules that are newer than the saved list, after the user's own rules so these
+ * still win. A default the user deleted stays deleted: it is as old as the list that lacks it.
+ */
+function withNewDefaults(stored: StoredMaterialRules): MaterialRule[] {
+  const ids = new Set(stored.rules.map((rule) => rule.id));
+  const added = DEFAULT_MATERIAL_RULES.filter((rule) => DEFAULT_RULE_VERSIONS[rule.id] > stored.version && !ids.has(rule.id));
+  return [...stored.rules, ...structuredClone(added)];
+}
+
+export function createMaterialRule(): MaterialRule {
+  return { id: crypto.randomUUID(), pattern: '', family: '', unit: 'dm²', group: '' };
+}
+
+export function loadMaterialRules(): MaterialRule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return structuredClone(DEFAULT_MATERIAL_RULES);
+    const data = JSON.parse(stored);
+    return withNewDefaults(Array.isArray(data) ? { version: 1, rules: data } : data);
+  } catch {
+    return structuredClone(DEFAULT_MATERIAL_RULES);
+  }
+}
+
+export function saveMaterialRules(rules: MaterialRule[]): void {
+  const stored: StoredMaterialRules = { version: MATERIAL_RULES_VERSION, rules };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+/**
+ * First rule whose pattern matches the code (case-insensitive), else the first one matching the
+ * material group name when there is one ("FORRO 1"). Empty or invalid patterns never match.
+ */
+export function findMaterialRule(rules: MaterialRule[], code: string, group?: string): MaterialRule | undefined {
+  for (const text of [code, group ?? '']) {
+    const trimmed = text.trim();
+    if (!trimmed) continue;
+    const rule = rules.find((r) => r.pattern.trim() && compilePattern(r.pattern, '(?!)').test(trimmed));
+    if (rule) return rule;
+  }
+  return undefined;
+}
@@ -0,0 +1,182 @@
+import { StockSpec } from './types';
+
+const STORAGE_KEY = 'despiece.stockSpecs';
+
+export interface NestingPiece {
+  id: string;
+  label: string;
+  width: number; // mm, bounding box
+  height: number; // mm, bounding box
+  area: number; // mm², real area when the outline is known
+  quantity: number;
+}
+
+export interface Placement {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number; // as placed (swapped when rotated)
+  height: number;
+  rotated: boolean;
+}
+
+export interface NestingSheet {
+  placements: Placement[];
+  usedLength: number; // mm from the start of the roll/hide to the end of the last row
+  placedArea: number; // mm²
+}
+
+export interface NestingResult {
+  stock: StockSpec;
+  sheets: NestingSheet[]; // one per hide; a single continuous sheet for rolls
+  stockCount: number; // hides, or rolls of `stock.length`
+  utilization: number; // 0-1: piece area over the hide usable area, or over the roll area used
+  usedLength: number; // mm of roll used (rolls only)
+  unplaced: string[]; // labels of pieces larger than the stock
+}
+
+interface Shelf {
+  y: number;
+  height: number;
+  cursor: number; // next free x
+  xEnd: number;
+}
+
+interface OpenSheet extends NestingSheet {
+  shelves: Shelf[];
+}
+
+// Step (mm) when looking down a hide for a row wide enough: the ends of the ellipse are narrow
+const ROW_SEARCH_STEP = 10;
+
+// Typical stock for the default families; others start as a 1.4 m roll
+export const DEFAULT_STOCK_SPECS: StockSpec[] = [
+  { family: 'Vaqueta', kind: 'hide', width: 1500, length: 2200, usableArea: 2000000, allowRotation: true, gap: 3 },
+  { family: 'Caprino', kind: 'hide', width: 750, length: 950, usableArea: 520000, allowRotation: true, gap: 3 },
+];
+
+export function defaultStockSpec(family: string): StockSpec {
+  return DEFAULT_STOCK_SPECS.find((s) => s.family === family)
+    ?? { family, kind: 'roll', width: 1400, length: 50000, usableArea: 0, allowRotation: false, gap: 3 };
+}
+
+export function loadStockSpecs(): StockSpec[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : structuredClone(DEFAULT_STOCK_SPECS);
+  } catch {
+    return structuredClone(DEFAULT_STOCK_SPECS);
+  }
+}
+
+export function saveStockSpecs(specs: StockSpec[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(specs));
+}
+
+/**
+ * Free x-range for a row between y and y + height. Hides are approximated by the ellipse inscribed
+ * in width × length, so rows near the ends are shorter; rolls use their full width.
+ */
+function rowRange(stock: StockSpec, y: number, height: number): [number, number] {
+  if (stock.kind === 'roll') return [0, stock.width];
+  const a = stock.width / 2;
+  const b = stock.length / 2;
+  const halfWidthAt = (yy: number) => {
+    const t = (yy - b) / b;
+    return t * t >= 1 ? 0 : a * Math.sqrt(1 - t * t);
+  };
+  const half = Math.min(halfWidthAt(y), halfWidthAt(y + height));
+  return [a - half, a + half];
+}
+
+// Orientations to try, best first: lying flat keeps rows low
+function orientations(piece: { width: number; height: number }, allowRotation: boolean) {
+  const asDrawn = { width: piece.width, height: piece.height, rotated: false };
+  if (!allowRotation || piece.width === piece.height) return [asDrawn];
+  const turned = { width: piece.height, height: piece.width, rotated: true };
+  return piece.height > piece.width ? [turned, asDrawn] : [asDrawn, turned];
+}
+
+/**
+ * Shelf packing (first fit, tallest pieces first) of every piece copy onto hides or a roll.
+ * An estimate, not a marker: pieces are packed by their bounding boxes.
+ */
+export function estimateNesting(pieces: NestingPiece[], stock: StockSpec): NestingResult {
+  const gap = Math.max(0, stock.gap);
+  const isRoll = stock.kind === 'roll';
+  const maxLength = isRoll ? Infinity : stock.length;
+
+  const copies = pieces
+    .flatMap((p) => Array.from({ length: Math.max(0, Math.round(p.quantity)) }, () => p))
+    .filter((p) => p.width > 0 && p.height > 0)
+    .map((p) => ({ piece: p, options: orientations(p, stock.allowRotation) }))
+    .sort((a, b) => b.options[0].height - a.options[0].height || b.options[0].width - a.options[0].width);
+
+  const sheets: OpenSheet[] = [];
+  const unplaced: string[] = [];
+
+  const tryPlace = (sheet: OpenSheet, piece: NestingPiece, options: ReturnType<typeof orientations>): boolean => {
+    // A hide is full once its usable area is taken, even if the outline still has room (defects, flanks)
+    if (!isRoll && sheet.placedArea + piece.area > stock.usableArea) return false;
+
+    for (const option of options) {
+      for (const shelf of sheet.shelves) {
+        if (option.height <= shelf.height && shelf.cursor + option.width <= shelf.xEnd) {
+          place(sheet, shelf, piece, option);
+          return true;
+        }
+      }
+    }
+    const last = sheet.shelves[sheet.shelves.length - 1];
+    const start = last ? last.y + last.height + gap : 0;
+    for (const option of options) {
+      for (let y = start; y + option.height <= maxLength; y += ROW_SEARCH_STEP) {
+        const [xStart, xEnd] = rowRange(stock, y, option.height);
+        if (xEnd - xStart < option.width) {
+          // Rolls are equally wide everywhere; on a hide, past the middle rows only get narrower
+          if (isRoll || y + option.height / 2 > stock.length / 2) break;
+          continue;
+        }
+        const shelf: Shelf = { y, height: option.height, cursor: xStart, xEnd };
+        sheet.shelves.push(shelf);
+        place(sheet, shelf, piece, option);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const place = (sheet: OpenSheet, shelf: Shelf, piece: NestingPiece, option: { width: number; height: number; rotated: boolean }) => {
+    sheet.placements.push({ id: piece.id, label: piece.label, x: shelf.cursor, y: shelf.y, ...option });
+    shelf.cursor += option.width + gap;
+    sheet.placedArea += piece.area;
+    sheet.usedLength = Math.max(sheet.usedLength, shelf.y + shelf.height);
+  };
+
+  for (const { piece, options } of copies) {
+    if (sheets.some((sheet) => tryPlace(sheet, piece, options))) continue;
+    if (isRoll && sheets.length > 0) {
+      // The roll is one continuous sheet: a piece that does not fit across it never will
+      unplaced.push(piece.label);
+      continue;
+    }
+    const sheet: OpenSheet = { placements: [], shelves: [], usedLength: 0, placedArea: 0 };
+    if (tryPlace(sheet, piece, options)) sheets.push(sheet);
+    else unplaced.push(piece.label);
+  }
+
+  const placedArea = sheets.reduce((sum, s) => sum + s.placedArea, 0);
+  const usedLength = isRoll ? sheets[0]?.usedLength ?? 0 : 0;
+  const stockCount = isRoll ? Math.ceil(usedLength / stock.length) : sheets.length;
+  const availableArea = isRoll ? stock.width * usedLength : sheets.length * stock.usableArea;
+
+  return {
+    stock,
+    sheets: sheets.map(({ placements, usedLength: length, placedArea: area }) => ({ placements, usedLength: length, placedArea: area })),
+    stockCount,
+    utilization: availableArea > 0 ? placedArea / availableArea : 0,
+    usedLength,
+    unplaced: [...new Set(unplaced)],
+  };
+}
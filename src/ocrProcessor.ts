@@ -0,0 +1,80 @@
+import { createWorker, OEM, PSM, Worker } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import spaTrainedDataUrl from '@tesseract.js-data/spa/4.0.0_best_int/spa.traineddata.gz?url';
+import { TextItem } from './types';
+
+// Width of an A4 page in PDF points, used to bring image pixels to the same scale as PDF text
+const A4_WIDTH_PT = 595;
+
+// Words recognized with less confidence than this (0-100) are treated as noise
+const MIN_WORD_CONFIDENCE = 30;
+
+/**
+ * Starts a Tesseract worker that loads the engine and the Spanish model from the app bundle,
+ * so OCR works without network access. Callers must terminate it when done.
+ */
+export async function createOcrWorker(): Promise<Worker> {
+  const response = await fetch(spaTrainedDataUrl);
+  const data = new Uint8Array(await response.arrayBuffer());
+
+  const worker = await createWorker([{ code: 'spa', data }], OEM.LSTM_ONLY, {
+    workerPath,
+    corePath,
+    workerBlobURL: false,
+    cacheMethod: 'none',
+  });
+  // Fichas are mostly tables: sparse mode finds isolated cells instead of reading paragraphs
+  await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+  return worker;
+}
+
+/**
+ * Recognizes the words on an image and returns them as text items.
+ * `scale` converts image pixels to PDF units (e.g. 1 / renderScale for a rendered PDF page).
+ */
+export async function recognizeTextItems(
+  worker: Worker,
+  image: HTMLCanvasElement | HTMLImageElement,
+  scale: number,
+): Promise<TextItem[]> {
+  const { data } = await worker.recognize(image, {}, { blocks: true });
+  const imageHeight = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  const items: TextItem[] = [];
+
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          if (!word.text.trim() || word.confidence < MIN_WORD_CONFIDENCE) continue;
+          const { x0, y0, x1, y1 } = word.bbox;
+          items.push({
+            str: word.text,
+            x: x0 * scale,
+            // Image Y grows downwards, PDF Y grows upwards from the baseline
+            y: (imageHeight - y1) * scale,
+            width: (x1 - x0) * scale,
+            height: (y1 - y0) * scale,
+          });
+        }
+      }
+    }
+  }
+
+  return items;
+}
+
+/** Runs OCR on an uploaded JPG/PNG, scaled as if the image were an A4-wide page. */
+export async function recognizeImageFile(file: File): Promise<TextItem[]> {
+  const url = URL.createObjectURL(file);
+  const worker = await createOcrWorker();
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return await recognizeTextItems(worker, image, A4_WIDTH_PT / image.naturalWidth);
+  } finally {
+    URL.revokeObjectURL(url);
+    await worker.terminate();
+  }
+}
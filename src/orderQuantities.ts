@@ -0,0 +1,19 @@
+import { OrderQuantity } from './types';
+import { SIZE_CATEGORIES } from './sizeCategories';
+
+export const DEFAULT_ORDER: OrderQuantity = { mode: 'total', total: 1, bySize: { DC: 0, FC: 0, HC: 0 } };
+
+/** Units in the whole order: the overall quantity, or the sum of the sizes. */
+export function orderTotal(order: OrderQuantity): number {
+  return order.mode === 'total' ? order.total : SIZE_CATEGORIES.reduce((sum, size) => sum + (order.bySize[size] || 0), 0);
+}
+
+/**
+ * Units a piece is cut for. With quantities per size, a piece listed under a size (free text such
+ * as "DC (GRANDE)") follows that size; pieces without a size are shared by every unit.
+ */
+export function unitsForCategory(order: OrderQuantity, category: string = ''): number {
+  if (order.mode === 'total') return order.total;
+  const size = SIZE_CATEGORIES.find((s) => category.toUpperCase().includes(s));
+  return size ? order.bySize[size] || 0 : orderTotal(order);
+}
@@ -0,0 +1,105 @@
+import { ColumnKey, ParsingProfile } from './types';
+import { DIMENSION_PATTERN } from './dimensionParser';
+
+const STORAGE_KEY = 'despiece.parsingProfiles';
+
+export const COLUMN_KEYS: ColumnKey[] = ['material', 'color', 'description', 'notes', 'width', 'height', 'dimensions', 'quantity'];
+
+export const COLUMN_NAMES: Record<ColumnKey, string> = {
+  material: 'Material',
+  color: 'Color',
+  description: 'Descripción',
+  notes: 'Notas',
+  width: 'Ancho',
+  height: 'Alto',
+  dimensions: 'Medidas (AxA)',
+  quantity: 'Cantidad',
+};
+
+export const DEFAULT_PROFILE: ParsingProfile = {
+  id: 'default',
+  name: 'Estándar',
+  keywords: [],
+  columnLabels: {
+    material: ['material', 'codigo', 'cod', 'code'],
+    color: ['color'],
+    description: ['descripcion', 'pieza', 'nombre'],
+    notes: ['notas', 'nota', 'observaciones', 'observacion', 'obs'],
+    width: ['ancho', 'w'],
+    height: ['alto', 'largo', 'h'],
+    dimensions: ['medidas', 'medida', 'dimensiones', 'dimension', 'dim'],
+    quantity: ['cant', 'cantidad', 'qty'],
+  },
+  rowTolerance: 5,
+  materialPattern: '^(1cap|1vaq)',
+  dimensionPattern: DIMENSION_PATTERN,
+  skipRowPatterns: ['^total', '^p[aá]gina\\s+\\d+'],
+  pageRange: { first: 1, last: null },
+};
+
+export function createProfile(name: string): ParsingProfile {
+  return {
+    ...structuredClone(DEFAULT_PROFILE),
+    id: crypto.randomUUID(),
+    name,
+  };
+}
+
+export function loadProfiles(): ParsingProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const profiles: ParsingProfile[] = stored ? JSON.parse(stored) : [];
+    return profiles.length > 0 ? profiles : [DEFAULT_PROFILE];
+  } catch {
+    return [DEFAULT_PROFILE];
+  }
+}
+
+export function saveProfiles(profiles: ParsingProfile[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/** Lowercases and strips accents and trailing punctuation so "Descripción:" matches "descripcion". */
+export function normalizeLabel(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[.:]+$/, '')
+    .trim();
+}
+
+/** Returns the regex error message, or null when the pattern compiles. */
+export function validatePattern(source: string): string | null {
+  try {
+    new RegExp(source, 'i');
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+export function compilePattern(source: string, fallback: string): RegExp {
+  return new RegExp(validatePattern(source) === null ? source : fallback, 'i');
+}
+
+/**
+ * Picks the profile whose keywords appear most often in the document text.
+ * Falls back to the first profile when no keyword matches.
+ */
+export function selectProfileForText(profiles: ParsingProfile[], text: string): ParsingProfile {
+  const haystack = normalizeLabel(text);
+  let best = profiles[0] ?? DEFAULT_PROFILE;
+  let bestScore = 0;
+
+  for (const profile of profiles) {
+    const score = profile.keywords.filter((k) => k.trim() && haystack.includes(normalizeLabel(k))).length;
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
@@ -1,5 +1,11 @@
 import * as pdfjsLib from 'pdfjs-dist';
-import { RawPart } from './types';
+import type { Worker } from 'tesseract.js';
+import { ColumnKey, ConfidenceFlag, ExtractionResult, ParsingProfile, ProjectInfo, RawPart, TextItem } from './types';
+import { COLUMN_KEYS, DEFAULT_PROFILE, compilePattern, normalizeLabel, selectProfileForText } from './parsingProfiles';
+import { createOcrWorker, recognizeImageFile, recognizeTextItems } from './ocrProcessor';
+import { boundingBoxOf, scoreConfidence, unionBoundingBox } from './confidence';
+import { findDimensionsInTokens, parseDimensions, parseLength } from './dimensionParser';
+import { SizeCategory, detectSizeSection } from './sizeCategories';
 
 // Set worker source
 // Use a fixed version if dynamic version fails, or fallback to a known working CDN
@@ -8,55 +14,280 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs
 
 console.log('PDF.js version:', pdfjsVersion);
 
-interface TextItem {
-  str: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+interface ColumnRange {
+  key: ColumnKey;
+  start: number;
+  end: number;
 }
 
-export async function extractDataFromPdf(file: File): Promise<RawPart[]> {
+// Profile settings compiled once per document
+interface ParsingRules {
+  profile: ParsingProfile;
+  materialRegex: RegExp;
+  dimensionRegex: RegExp;
+  skipRegexes: RegExp[];
+}
+
+// Where the pages being parsed came from, recorded on every part
+interface SourceContext {
+  fileName: string;
+  ocrPages: number[];
+}
+
+// The part row most recently read, kept to attach wrapped description lines to it
+interface PreviousRow {
+  part: RawPart;
+  row: TextItem[];
+  lastLine: TextItem[]; // the part row itself or the last line merged into it
+}
+
+// Render scale for pages sent to OCR; 2x (~144 dpi) is enough for table text
+const OCR_RENDER_SCALE = 2;
+
+// Minimum number of recognized labels for a row to count as the table header
+const MIN_HEADER_COLUMNS = 3;
+
+// Max vertical distance between a part row and its continuation, in line heights
+const CONTINUATION_LINE_GAP = 1.8;
+
+const quantityRegex = /^\d+$/;
+
+// Labels of the ficha header block. The value follows the label in the same text item or in the next one.
+const PROJECT_LABELS: { key: keyof ProjectInfo; regex: RegExp }[] = [
+  { key: 'reference', regex: /^(ref(erencia)?)(?:\s*[:.]\s*|\s+|$)(.*)$/i },
+  { key: 'collection', regex: /^(colecci[oó]n)(?:\s*[:.]\s*|\s+|$)(.*)$/i },
+  { key: 'date', regex: /^(fecha)(?:\s*[:.]\s*|\s+|$)(.*)$/i },
+  { key: 'totalMolds', regex: /^((?:total\s+)?moldes)(?:\s*[:.]\s*|\s+|$)(.*)$/i },
+];
+
+/**
+ * Extracts the parts of a ficha from a PDF or a JPG/PNG image. `profile` is either a fixed
+ * parsing profile or 'auto', in which case the profile is picked from `profiles` by matching
+ * keywords in the document text.
+ */
+export async function extractDataFromFile(
+  file: File,
+  profile: ParsingProfile | 'auto' = DEFAULT_PROFILE,
+  profiles: ParsingProfile[] = [DEFAULT_PROFILE],
+): Promise<ExtractionResult> {
+  if (file.type.startsWith('image/')) {
+    const items = await recognizeImageFile(file);
+    const ocrPages = [1];
+    return { ...parseWithProfile([items], profile, profiles, { fileName: file.name, ocrPages }), ocrPages };
+  }
+  return extractDataFromPdf(file, profile, profiles);
+}
+
+export async function extractDataFromPdf(
+  file: File,
+  profile: ParsingProfile | 'auto' = DEFAULT_PROFILE,
+  profiles: ParsingProfile[] = [DEFAULT_PROFILE],
+): Promise<ExtractionResult> {
+  const pdf = await loadPdfDocument(file);
+  const pages: TextItem[][] = [];
+  const ocrPages: number[] = [];
+  // Started on the first scanned page only, since loading the OCR model is slow
+  let ocrWorker: Worker | null = null;
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      let items = await getPageTextItems(page);
+
+      // Scanned page: no text layer, so render it and read it with OCR
+      if (items.length === 0) {
+        ocrWorker ??= await createOcrWorker();
+        items = await recognizePage(page, ocrWorker);
+        ocrPages.push(i);
+      }
+
+      pages.push(items);
+    }
+  } finally {
+    await ocrWorker?.terminate();
+  }
+
+  return { ...parseWithProfile(pages, profile, profiles, { fileName: file.name, ocrPages }), ocrPages };
+}
+
+export async function loadPdfDocument(file: File): Promise<pdfjsLib.PDFDocumentProxy> {
   const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const parts: RawPart[] = [];
+  return pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+}
 
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    
-    // Extract items with position
-    const items: TextItem[] = textContent.items.map((item: any) => {
-      // transform is [scaleX, skewY, skewX, scaleY, translateX, translateY]
-      const tx = item.transform;
-      return {
-        str: item.str,
-        x: tx[4],
-        y: tx[5],
-        width: item.width,
-        height: item.height
-      };
-    }).filter(item => item.str.trim().length > 0);
+export async function getPageTextItems(page: pdfjsLib.PDFPageProxy): Promise<TextItem[]> {
+  const textContent = await page.getTextContent();
 
+  // Extract items with position
+  return textContent.items.map((item: any) => {
+    // transform is [scaleX, skewY, skewX, scaleY, translateX, translateY]
+    const tx = item.transform;
+    return {
+      str: item.str,
+      x: tx[4],
+      y: tx[5],
+      width: item.width,
+      height: item.height
+    };
+  }).filter(item => item.str.trim().length > 0);
+}
+
+/**
+ * Builds a part from text items picked by hand in the source viewer. When the heuristics can't
+ * find a code or dimensions, the text becomes the description so the user can complete the row.
+ */
+export function createPartFromTextItems(
+  items: TextItem[],
+  fileName: string,
+  page: number,
+  profile: ParsingProfile = DEFAULT_PROFILE,
+): RawPart {
+  const row = [...items].sort((a, b) => a.x - b.x);
+  const tokens = row.map((item) => item.str.trim()).filter(Boolean);
+  const part: RawPart = parseRowToPart(row, compileRules(profile)) ?? {
+    id: crypto.randomUUID(),
+    material: '',
+    color: '',
+    description: tokens.join(' '),
+    notes: '',
+    width: 0,
+    height: 0,
+    quantity: 1,
+    confidenceFlags: ['noMaterial', 'noDimensions', 'defaultQuantity'],
+  };
+
+  part.source = { fileName, page, bbox: boundingBoxOf(row), tokens };
+  part.confidence = scoreConfidence(part.confidenceFlags ?? []);
+  return part;
+}
+
+async function recognizePage(page: pdfjsLib.PDFPageProxy, worker: Worker): Promise<TextItem[]> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  const context = canvas.getContext('2d');
+  if (!context) return [];
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return recognizeTextItems(worker, canvas, 1 / OCR_RENDER_SCALE);
+}
+
+function parseWithProfile(
+  pages: TextItem[][],
+  profile: ParsingProfile | 'auto',
+  profiles: ParsingProfile[],
+  context: SourceContext,
+) {
+  const activeProfile = profile === 'auto'
+    ? selectProfileForText(profiles, pages.flat().map((item) => item.str).join(' '))
+    : profile;
+
+  return parsePages(pages, compileRules(activeProfile), context);
+}
+
+function compileRules(profile: ParsingProfile): ParsingRules {
+  return {
+    profile,
+    materialRegex: compilePattern(profile.materialPattern, DEFAULT_PROFILE.materialPattern),
+    dimensionRegex: compilePattern(profile.dimensionPattern, DEFAULT_PROFILE.dimensionPattern),
+    skipRegexes: profile.skipRowPatterns
+      .filter((pattern) => pattern.trim())
+      .map((pattern) => compilePattern(pattern, '(?!)')),
+  };
+}
+
+function parsePages(pages: TextItem[][], rules: ParsingRules, context: SourceContext): Omit<ExtractionResult, 'ocrPages'> {
+  const { pageRange, rowTolerance } = rules.profile;
+  const parts: RawPart[] = [];
+  const projectInfo: ProjectInfo = { reference: '', collection: '', date: '', totalMolds: '' };
+  // Column layout learned from the last header seen; tables often continue on the next page without repeating it
+  let columns: ColumnRange[] | null = null;
+  // Size section (DC/FC/HC) in effect; like the columns, it carries over to the next page
+  let currentCategory: SizeCategory | undefined;
+
+  const lastPage = Math.min(pageRange.last ?? pages.length, pages.length);
+  for (let pageNumber = Math.max(pageRange.first, 1); pageNumber <= lastPage; pageNumber++) {
     // Group by rows (using Y coordinate)
-    const rows = groupItemsByRows(items);
+    const rows = groupItemsByRows(pages[pageNumber - 1], rowTolerance);
 
-    // Process rows
-    for (const row of rows) {
-      const part = parseRowToPart(row);
+    // Process rows. Once a header is found, only the rows below it are read by column position.
+    const headerIndex = rows.findIndex((row) => detectHeaderColumns(row, rules.profile) !== null);
+    if (headerIndex !== -1) {
+      columns = detectHeaderColumns(rows[headerIndex], rules.profile);
+    }
+    const dataRows = headerIndex !== -1 ? rows.slice(headerIndex + 1) : rows;
+    readProjectInfo(headerIndex !== -1 ? rows.slice(0, headerIndex) : rows, projectInfo);
+    let previous: PreviousRow | null = null;
+
+    for (const row of dataRows) {
+      if (shouldSkipRow(row, rules)) {
+        previous = null;
+        continue;
+      }
+
+      const section = detectSizeSection(row.map((item) => item.str.trim()).join(' '));
+      if (section) {
+        currentCategory = section;
+        previous = null;
+        continue;
+      }
+
+      if (previous && isContinuationRow(row, previous, columns, rules)) {
+        appendContinuation(previous.part, row, columns);
+        addFlag(previous.part, 'merged');
+        previous.lastLine = row;
+        continue;
+      }
+
+      const part = columns ? parseRowByColumns(row, columns, rules) : parseRowToPart(row, rules);
       if (part) {
+        part.source = {
+          fileName: context.fileName,
+          page: pageNumber,
+          bbox: boundingBoxOf(row),
+          tokens: row.map((item) => item.str.trim()).filter(Boolean),
+        };
+        if (currentCategory) part.category = currentCategory;
+        if (context.ocrPages.includes(pageNumber)) addFlag(part, 'ocr');
         parts.push(part);
       }
+      previous = part ? { part, row, lastLine: row } : null;
     }
   }
 
-  return parts;
+  return { projectInfo, parts };
+}
+
+function addFlag(part: RawPart, flag: ConfidenceFlag) {
+  const flags = part.confidenceFlags ?? [];
+  if (!flags.includes(flag)) flags.push(flag);
+  part.confidenceFlags = flags;
+  part.confidence = scoreConfidence(flags);
 }
 
-function groupItemsByRows(items: TextItem[]): TextItem[][] {
+/** Fills the still-empty fields of `info` from label/value pairs found in the rows. */
+function readProjectInfo(rows: TextItem[][], info: ProjectInfo) {
+  for (const row of rows) {
+    for (let i = 0; i < row.length; i++) {
+      const text = row[i].str.trim();
+      for (const { key, regex } of PROJECT_LABELS) {
+        const match = text.match(regex);
+        if (!match || info[key]) continue;
+
+        const inlineValue = match[match.length - 1].trim();
+        const nextText = row[i + 1]?.str.trim() ?? '';
+        const nextIsLabel = PROJECT_LABELS.some((label) => label.regex.test(nextText));
+        info[key] = inlineValue || (nextIsLabel ? '' : nextText.replace(/^[:.]\s*/, ''));
+      }
+    }
+  }
+}
+
+function groupItemsByRows(items: TextItem[], tolerance: number): TextItem[][] {
   // Sort by Y descending (top to bottom), then X ascending (left to right)
   items.sort((a, b) => {
-    if (Math.abs(a.y - b.y) < 5) { // Tolerance of 5 units for same row
+    if (Math.abs(a.y - b.y) < tolerance) { // Same row within tolerance
       return a.x - b.x;
     }
     return b.y - a.y; // PDF Y coordinates start from bottom
@@ -71,7 +302,7 @@ function groupItemsByRows(items: TextItem[]): TextItem[][] {
     const prevItem = currentRow[0];
     
     // Check if same row (within tolerance)
-    if (Math.abs(item.y - prevItem.y) < 5) {
+    if (Math.abs(item.y - prevItem.y) < tolerance) {
       currentRow.push(item);
     } else {
       // Sort items in the finished row by X
@@ -87,7 +318,162 @@ function groupItemsByRows(items: TextItem[]): TextItem[][] {
   return rows;
 }
 
-function parseRowToPart(row: TextItem[]): RawPart | null {
+function shouldSkipRow(row: TextItem[], rules: ParsingRules): boolean {
+  const text = row.map((item) => item.str.trim()).join(' ');
+  return rules.skipRegexes.some((regex) => regex.test(text));
+}
+
+function findColumn(item: TextItem, columns: ColumnRange[]): ColumnRange | undefined {
+  const center = item.x + item.width / 2;
+  return columns.find((c) => center >= c.start && center < c.end);
+}
+
+/**
+ * A continuation is a line of plain text (no code, dimensions or numbers) right below a part row
+ * and aligned with its description, produced when a long description wraps.
+ */
+function isContinuationRow(row: TextItem[], previous: PreviousRow, columns: ColumnRange[] | null, rules: ParsingRules): boolean {
+  const texts = row.map((item) => item.str.trim()).filter(Boolean);
+  if (texts.length === 0) return false;
+
+  const hasData = texts.some((text) =>
+    text.includes('/') || rules.materialRegex.test(text) || rules.dimensionRegex.test(text) || /\d/.test(text),
+  );
+  if (hasData) return false;
+
+  // Must sit on the next line, not further down the page
+  const lineHeight = Math.max(...previous.lastLine.map((item) => item.height), rules.profile.rowTolerance * 2);
+  const gap = previous.lastLine[0].y - row[0].y;
+  if (gap <= 0 || gap > lineHeight * CONTINUATION_LINE_GAP) return false;
+
+  if (columns) {
+    return row.every((item) => {
+      const key = findColumn(item, columns)?.key;
+      return key === 'description' || key === 'notes';
+    });
+  }
+
+  // Without a header, align with where the previous description started
+  const descriptionStart = previous.row.find((item) => previous.part.description.startsWith(item.str.trim()));
+  if (!descriptionStart) return false;
+  return Math.abs(row[0].x - descriptionStart.x) <= descriptionStart.width + rules.profile.rowTolerance * 2;
+}
+
+function appendContinuation(part: RawPart, row: TextItem[], columns: ColumnRange[] | null) {
+  const descriptionTexts: string[] = [];
+  const noteTexts: string[] = [];
+
+  for (const item of row) {
+    const text = item.str.trim();
+    if (!text) continue;
+    if (columns && findColumn(item, columns)?.key === 'notes') {
+      noteTexts.push(text);
+    } else {
+      descriptionTexts.push(text);
+    }
+  }
+
+  if (descriptionTexts.length) part.description = [part.description, ...descriptionTexts].filter(Boolean).join(' ');
+  if (noteTexts.length) part.notes = [part.notes, ...noteTexts].filter(Boolean).join(' ');
+  part.mergedLines = (part.mergedLines ?? 1) + 1;
+  if (part.source) {
+    part.source.bbox = unionBoundingBox(part.source.bbox, boundingBoxOf(row));
+    part.source.tokens.push(...descriptionTexts, ...noteTexts);
+  }
+}
+
+function detectHeaderColumns(row: TextItem[], profile: ParsingProfile): ColumnRange[] | null {
+  const found: { key: ColumnKey; center: number }[] = [];
+
+  for (const item of row) {
+    const label = normalizeLabel(item.str);
+    const key = COLUMN_KEYS.find((k) => profile.columnLabels[k].some((alias) => normalizeLabel(alias) === label));
+    if (key && !found.some((f) => f.key === key)) {
+      found.push({ key, center: item.x + item.width / 2 });
+    }
+  }
+
+  if (found.length < MIN_HEADER_COLUMNS) return null;
+
+  // Each column spans from the midpoint with its left neighbour to the midpoint with its right neighbour
+  found.sort((a, b) => a.center - b.center);
+  return found.map((col, i) => ({
+    key: col.key,
+    start: i === 0 ? -Infinity : (found[i - 1].center + col.center) / 2,
+    end: i === found.length - 1 ? Infinity : (col.center + found[i + 1].center) / 2,
+  }));
+}
+
+function parseRowByColumns(row: TextItem[], columns: ColumnRange[], rules: ParsingRules): RawPart | null {
+  const cells: Partial<Record<ColumnKey, string[]>> = {};
+
+  for (const item of row) {
+    const text = item.str.trim();
+    if (!text) continue;
+    const column = findColumn(item, columns);
+    if (!column) continue;
+    (cells[column.key] ??= []).push(text);
+  }
+
+  const cell = (key: ColumnKey) => (cells[key] ?? []).join(' ').trim();
+  const toNumber = (text: string) => {
+    const match = text.match(/\d+(?:[.,]\d+)?/);
+    return match ? parseFloat(match[0].replace(',', '.')) : 0;
+  };
+
+  // 1. Material code, split into material/color when written as "CODE/COLOR"
+  let material = cell('material');
+  let color = cell('color');
+  if (material.includes('/')) {
+    const [code, ...rest] = material.split('/');
+    material = code.trim();
+    color = color || rest.join('/').trim();
+  }
+
+  // 2. Dimensions in mm, either from separate Ancho/Alto columns or a combined "WxH" column
+  const widthText = cell('width');
+  const heightText = cell('height');
+  let width = parseLength(widthText) ?? 0;
+  let height = parseLength(heightText) ?? 0;
+  let invalidDimensions = (!!widthText && !width) || (!!heightText && !height);
+  const dimensions = parseDimensions(cell('dimensions'), rules.dimensionRegex);
+  if (dimensions && !(width && height)) {
+    if (dimensions.ok) {
+      width = dimensions.width;
+      height = dimensions.height;
+      invalidDimensions = false;
+    } else {
+      invalidDimensions = true;
+    }
+  }
+
+  // 3. Quantity
+  const quantity = toNumber(cell('quantity')) || 1;
+
+  if (!material && !(width > 0 && height > 0) && !invalidDimensions) return null;
+
+  const flags: ConfidenceFlag[] = [];
+  if (invalidDimensions) flags.push('invalidDimensions');
+  else if (!(width > 0 && height > 0)) flags.push('noDimensions');
+  if (!toNumber(cell('quantity'))) flags.push('defaultQuantity');
+  if (!material) flags.push('noMaterial');
+
+  return {
+    id: crypto.randomUUID(),
+    material,
+    color,
+    description: cell('description'),
+    notes: cell('notes'),
+    width,
+    height,
+    quantity,
+    confidence: scoreConfidence(flags),
+    confidenceFlags: flags,
+  };
+}
+
+// Fallback used when the page has no recognizable table header
+function parseRowToPart(row: TextItem[], rules: ParsingRules): RawPart | null {
   let material = '';
   let color = '';
   let width = 0;
@@ -96,21 +482,27 @@ function parseRowToPart(row: TextItem[]): RawPart | null {
   let descriptionParts: string[] = [];
   const numbers: number[] = [];
 
-  // Regex patterns
-  const materialStartRegex = /^(1cap|1vaq)/i;
-  const dimensionRegex = /(\d+)\s*[xX*]\s*(\d+)/;
-  const quantityRegex = /^\d+$/;
-
   let materialFound = false;
   let dimensionsFound = false;
+  const flags: ConfidenceFlag[] = ['noHeader'];
 
-  for (const item of row) {
-    const text = item.str.trim();
+  // Dimensions may be one text item ("230x150") or spread over several ("23,5", "x", "15", "cm")
+  const texts = row.map((item) => item.str.trim());
+  const dimensions = findDimensionsInTokens(texts, rules.dimensionRegex);
+  const invalidDimensions = dimensions !== null && !dimensions.result.ok;
+  if (dimensions?.result.ok) {
+    width = dimensions.result.width;
+    height = dimensions.result.height;
+    dimensionsFound = true;
+  }
+
+  for (let i = 0; i < texts.length; i++) {
+    const text = texts[i];
     if (!text) continue;
 
     // 1. Check for Material (contains '/' or starts with known prefix)
     // We prioritize explicit material codes
-    if (!materialFound && (text.includes('/') || materialStartRegex.test(text))) {
+    if (!materialFound && (text.includes('/') || rules.materialRegex.test(text))) {
       // It looks like a material code
       if (text.includes('/')) {
         const parts = text.split('/');
@@ -123,12 +515,8 @@ function parseRowToPart(row: TextItem[]): RawPart | null {
       continue;
     }
 
-    // 2. Check for Dimensions in "WxH" format
-    const dimMatch = text.match(dimensionRegex);
-    if (!dimensionsFound && dimMatch) {
-      width = parseInt(dimMatch[1]);
-      height = parseInt(dimMatch[2]);
-      dimensionsFound = true;
+    // 2. Skip the tokens already read as dimensions
+    if (dimensionsFound && dimensions && i >= dimensions.start && i < dimensions.end) {
       continue;
     }
 
@@ -146,11 +534,12 @@ function parseRowToPart(row: TextItem[]): RawPart | null {
   }
 
   // Logic to assign standalone numbers to Width/Height/Quantity
-  if (!dimensionsFound) {
+  if (!dimensionsFound && !invalidDimensions) {
      if (numbers.length >= 2) {
         // Assume first two are W x H
         width = numbers[0];
         height = numbers[1];
+        flags.push('guessedDimensions');
         if (numbers.length >= 3) {
            // Third is Quantity
            quantity = numbers[2];
@@ -158,6 +547,7 @@ function parseRowToPart(row: TextItem[]): RawPart | null {
      } else if (numbers.length === 1) {
         // Only one number? Ambiguous. Could be quantity if material is present.
         quantity = numbers[0];
+        flags.push('ambiguousQuantity');
      }
   } else {
      // Dimensions already found (e.g. "300x400")
@@ -168,10 +558,16 @@ function parseRowToPart(row: TextItem[]): RawPart | null {
   }
 
   // Default quantity
-  if (quantity === 0) quantity = 1;
+  if (quantity === 0) {
+    quantity = 1;
+    flags.push('defaultQuantity');
+  }
+  if (invalidDimensions) flags.push('invalidDimensions');
+  else if (!(width > 0 && height > 0)) flags.push('noDimensions');
+  if (!materialFound) flags.push('noMaterial');
 
-  // Validation: A row is a "part" if it has at least a material OR dimensions.
-  if (materialFound || (width > 0 && height > 0)) {
+  // Validation: A row is a "part" if it has at least a material OR dimensions (even unreadable ones).
+  if (materialFound || (width > 0 && height > 0) || invalidDimensions) {
     return {
       id: crypto.randomUUID(),
       material: material,
@@ -181,6 +577,8 @@ function parseRowToPart(row: TextItem[]): RawPart | null {
       width: width,
       height: height,
       quantity: quantity,
+      confidence: scoreConfidence(flags),
+      confidenceFlags: flags,
     };
   }
 
@@ -0,0 +1,112 @@
+import { BillingUnit, Consumption, PriceEntry, PriceList, ProcessedPart } from './types';
+import { convertConsumption } from './consumption';
+
+const STORAGE_KEY = 'despiece.priceList';
+
+export const DEFAULT_PRICE_LIST: PriceList = { currency: 'COP', entries: [] };
+
+export interface CostLine {
+  group: string; // material group the cost adds up to, e.g. "Cuero 1"
+  cost: number | null; // null when the material has no price
+}
+
+export interface GroupCost {
+  group: string;
+  cost: number;
+  unpriced: number; // parts of the group without a price
+}
+
+export interface CostSummary {
+  groups: GroupCost[];
+  total: number;
+  unpriced: number;
+}
+
+export function createPriceEntry(): PriceEntry {
+  return { id: crypto.randomUUID(), code: '', color: '', price: 0, unit: 'dm²' };
+}
+
+export function loadPriceList(): PriceList {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : structuredClone(DEFAULT_PRICE_LIST);
+  } catch {
+    return structuredClone(DEFAULT_PRICE_LIST);
+  }
+}
+
+export function savePriceList(list: PriceList): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Price for the exact code and color, else the code's any-color price. */
+export function findPrice(list: PriceList, code: string, color: string): PriceEntry | undefined {
+  if (!code.trim()) return undefined;
+  const forCode = list.entries.filter((e) => sameText(e.code, code));
+  return forCode.find((e) => e.color.trim() && sameText(e.color, color)) ?? forCode.find((e) => !e.color.trim());
+}
+
+/**
+ * Cost of a consumption. A price in another area unit is converted (a price per ft² applies to a
+ * part billed in dm²); any other unit mismatch leaves the part unpriced.
+ */
+export function priceConsumption(
+  list: PriceList,
+  code: string,
+  color: string,
+  consumption: number,
+  unit: BillingUnit,
+): { unitPrice: number; cost: number } | null {
+  const entry = findPrice(list, code, color);
+  if (!entry) return null;
+  const inPriceUnit = convertConsumption(consumption, unit, entry.unit);
+  if (inPriceUnit === null) return null;
+  const cost = inPriceUnit * entry.price;
+  return { unitPrice: consumption > 0 ? cost / consumption : 0, cost };
+}
+
+/**
+ * Cost of the unrounded gross consumption of `units` units of the reference, in the rule's unit:
+ * the display unit and its rounding only change what is shown, never what is paid.
+ */
+export function priceGrossConsumption(list: PriceList, code: string, color: string, consumption: Consumption, units: number = 1): number | null {
+  return priceConsumption(list, code, color, consumption.gross * units, consumption.unit)?.cost ?? null;
+}
+
+/** Adds unit price (per display unit) and cost to the parts that have a price, based on their gross consumption. */
+export function applyPrices(parts: ProcessedPart[], list: PriceList): ProcessedPart[] {
+  return parts.map((part) => {
+    if (part.areaUnit === 'N/A' || !part.consumption) return part;
+    const cost = priceGrossConsumption(list, part.material, part.color, part.consumption);
+    const unitPrice = priceConsumption(list, part.material, part.color, 1, part.areaUnit)?.cost;
+    return cost !== null && unitPrice !== undefined ? { ...part, unitPrice, cost: Number(cost.toFixed(2)) } : part;
+  });
+}
+
+/** Subtotals per group, in order of first appearance, and the total for the reference. */
+export function summarizeCosts(lines: CostLine[]): CostSummary {
+  const groups = new Map<string, GroupCost>();
+  for (const line of lines) {
+    const group = groups.get(line.group) ?? { group: line.group, cost: 0, unpriced: 0 };
+    if (line.cost === null) group.unpriced++;
+    else group.cost += line.cost;
+    groups.set(line.group, group);
+  }
+  const list = [...groups.values()];
+  return {
+    groups: list,
+    total: list.reduce((sum, g) => sum + g.cost, 0),
+    unpriced: list.reduce((sum, g) => sum + g.unpriced, 0),
+  };
+}
+
+export function formatMoney(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('es-CO', { style: 'currency', currency: currency.trim().toUpperCase() }).format(value);
+  } catch {
+    // Unknown currency code: plain number with the code as typed
+    return `${value.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,268 @@
+import { LabelMapping, MaterialRule, OrderQuantity, ProjectApp, ProjectInfo, RawPart, SheetPart } from './types';
+import { SIZE_CATEGORIES } from './sizeCategories';
+import { BILLING_UNITS } from './consumption';
+import { DEFAULT_ORDER } from './orderQuantities';
+import { codeKey } from './labelMappings';
+import { parseDimensions } from './dimensionParser';
+import { sizeOf } from './sizeGrading';
+
+export const PROJECT_FILE_FORMAT = 'despiece-project';
+
+// Bump when the shape changes, and add the migration from the previous version to MIGRATIONS
+export const PROJECT_FILE_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = '.despiece.json';
+
+export interface ProjectFileData {
+  projectInfo: ProjectInfo;
+  labelMapping: LabelMapping; // lowercase code → "<group> <n>"
+  materialRules: MaterialRule[]; // empty when the file was written without rules (older versions)
+  order: OrderQuantity;
+}
+
+// The parts keep the shape of the app that wrote the file; toRawParts/toSheetParts convert them
+export type ProjectParts = { app: 'local'; parts: RawPart[] } | { app: 'gemini'; parts: SheetPart[] };
+
+export type ProjectFile = { format: typeof PROJECT_FILE_FORMAT; version: number; exportedAt: string } & ProjectFileData & ProjectParts;
+
+export type ProjectFileResult =
+  | { ok: true; file: ProjectFile; migratedFrom: number | null } // migratedFrom: version the file was written in, when older
+  | { ok: false; errors: string[] }; // one message per invalid field, e.g. "parts[3].quantity: debe ser un número"
+
+export function createProjectFile(data: ProjectFileData & ProjectParts): ProjectFile {
+  return { format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, exportedAt: new Date().toISOString(), ...data };
+}
+
+export function serializeProjectFile(file: ProjectFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+export function projectFileName(projectInfo: ProjectInfo): string {
+  return `${projectInfo.reference.trim().replace(/[\\/:*?"<>|\s]+/g, '_') || 'proyecto'}${PROJECT_FILE_EXTENSION}`;
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrades a file of version n to n + 1. Version 0 is the bare { projectInfo, parts } JSON of an
+ * analysis, written before the file had a format and a version.
+ */
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  0: (data) => {
+    const parts = Array.isArray(data.parts) ? data.parts : [];
+    const app: ProjectApp = parts.some((part) => isObject(part) && 'description' in part) ? 'local' : 'gemini';
+    return {
+      format: PROJECT_FILE_FORMAT,
+      version: 1,
+      exportedAt: '',
+      app,
+      projectInfo: data.projectInfo,
+      // Local parts of an analysis may come without ids
+      parts: app === 'local' ? parts.map((part) => (isObject(part) && !part.id ? { ...part, id: crypto.randomUUID() } : part)) : parts,
+      labelMapping: {},
+      materialRules: [],
+      order: DEFAULT_ORDER,
+    };
+  },
+};
+
+/** Reads an exported project, migrating older versions. Never throws. */
+export function readProjectFile(text: string): ProjectFileResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['El archivo no es un JSON válido.'] };
+  }
+  if (!isObject(data)) return { ok: false, errors: ['El archivo no contiene un proyecto.'] };
+
+  let version: number;
+  if (data.format === undefined && data.version === undefined) {
+    if (!('parts' in data)) return { ok: false, errors: ['El archivo no es un proyecto de despiece.'] };
+    version = 0;
+  } else if (data.format !== PROJECT_FILE_FORMAT) {
+    return { ok: false, errors: [`format: se esperaba "${PROJECT_FILE_FORMAT}"`] };
+  } else if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { ok: false, errors: ['version: debe ser un número entero positivo'] };
+  } else if (data.version > PROJECT_FILE_VERSION) {
+    return { ok: false, errors: [`version: el archivo es de la versión ${data.version} y esta aplicación lee hasta la ${PROJECT_FILE_VERSION}. Actualice la aplicación.`] };
+  } else {
+    version = data.version;
+  }
+
+  const migratedFrom = version < PROJECT_FILE_VERSION ? version : null;
+  let migrated = data;
+  for (; version < PROJECT_FILE_VERSION; version++) migrated = MIGRATIONS[version](migrated);
+
+  const errors = validateProjectFile(migrated);
+  if (errors.length > 0) return { ok: false, errors };
+  if (migrated.app === 'gemini') migrated = { ...migrated, parts: (migrated.parts as Json[]).map(withSheetDefaults) };
+  return { ok: true, file: migrated as unknown as ProjectFile, migratedFrom };
+}
+
+const SHEET_PART_FIELDS = ['name', 'code', 'color', 'material', 'category', 'quantity'] as const;
+
+// Fields JSON.stringify left out because the analysis didn't return them
+const withSheetDefaults = (part: Json): Json => ({ ...Object.fromEntries(SHEET_PART_FIELDS.map((key) => [key, ''])), ...part });
+
+const at = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const problem = (value: unknown, expected: string) => (value === undefined ? 'falta el campo' : `debe ser ${expected}`);
+
+// Each check adds a message per invalid field instead of stopping at the first one, so a file can be fixed in one go
+function checkObject(errors: string[], value: unknown, path: string): value is Json {
+  if (!isObject(value)) errors.push(`${path}: ${problem(value, 'un objeto')}`);
+  return isObject(value);
+}
+
+function checkArray(errors: string[], value: unknown, path: string): value is unknown[] {
+  if (!Array.isArray(value)) errors.push(`${path}: ${problem(value, 'una lista')}`);
+  return Array.isArray(value);
+}
+
+function checkString(errors: string[], obj: Json, key: string, path: string, optional = false): void {
+  const value = obj[key];
+  if (typeof value !== 'string' && !(optional && value === undefined)) errors.push(`${at(path, key)}: ${problem(value, 'texto')}`);
+}
+
+function checkNumber(errors: string[], obj: Json, key: string, path: string): void {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${at(path, key)}: ${problem(value, 'un número')}`);
+  else if (value < 0) errors.push(`${at(path, key)}: no puede ser negativo`);
+}
+
+function checkOneOf(errors: string[], obj: Json, key: string, path: string, allowed: readonly string[], optional = false): void {
+  const value = obj[key];
+  if ((typeof value === 'string' && allowed.includes(value)) || (optional && value === undefined)) return;
+  errors.push(`${at(path, key)}: ${problem(value, `uno de ${allowed.join(', ')}`)}`);
+}
+
+function validateProjectFile(data: Json): string[] {
+  const errors: string[] = [];
+  checkOneOf(errors, data, 'app', '', ['local', 'gemini']);
+
+  if (checkObject(errors, data.projectInfo, 'projectInfo')) {
+    for (const key of ['reference', 'collection', 'date', 'totalMolds']) checkString(errors, data.projectInfo, key, 'projectInfo');
+  }
+
+  if (checkArray(errors, data.parts, 'parts')) {
+    data.parts.forEach((part, i) => {
+      const path = `parts[${i}]`;
+      if (!checkObject(errors, part, path)) return;
+      if (data.app === 'local') {
+        for (const key of ['id', 'material', 'color', 'description', 'notes']) checkString(errors, part, key, path);
+        for (const key of ['width', 'height', 'quantity']) checkNumber(errors, part, key, path);
+        checkOneOf(errors, part, 'category', path, SIZE_CATEGORIES, true);
+        checkString(errors, part, 'grade', path, true);
+        if (part.outline !== undefined && checkObject(errors, part.outline, `${path}.outline`)) {
+          checkNumber(errors, part.outline, 'area', `${path}.outline`);
+          checkNumber(errors, part.outline, 'perimeter', `${path}.outline`);
+          checkArray(errors, part.outline.points, `${path}.outline.points`);
+        }
+      } else if (data.app === 'gemini') {
+        // The analysis schema requires none of them, so a row may come without code or category (hardware)
+        for (const key of SHEET_PART_FIELDS) checkString(errors, part, key, path, true);
+        checkString(errors, part, 'notes', path, true);
+        checkString(errors, part, 'grade', path, true);
+        checkOneOf(errors, part, 'gradedFrom', path, SIZE_CATEGORIES, true);
+      }
+    });
+  }
+
+  if (checkObject(errors, data.labelMapping, 'labelMapping')) {
+    for (const [code, label] of Object.entries(data.labelMapping)) {
+      if (typeof label !== 'string') errors.push(`labelMapping["${code}"]: debe ser texto`);
+    }
+  }
+
+  if (checkArray(errors, data.materialRules, 'materialRules')) {
+    data.materialRules.forEach((rule, i) => {
+      const path = `materialRules[${i}]`;
+      if (!checkObject(errors, rule, path)) return;
+      for (const key of ['id', 'pattern', 'family', 'group']) checkString(errors, rule, key, path);
+      checkOneOf(errors, rule, 'unit', path, BILLING_UNITS);
+      if (typeof rule.pattern === 'string') {
+        try {
+          new RegExp(rule.pattern, 'i');
+        } catch {
+          errors.push(`${path}.pattern: expresión regular no válida`);
+        }
+      }
+    });
+  }
+
+  if (checkObject(errors, data.order, 'order')) {
+    checkOneOf(errors, data.order, 'mode', 'order', ['total', 'bySize']);
+    checkNumber(errors, data.order, 'total', 'order');
+    if (checkObject(errors, data.order.bySize, 'order.bySize')) {
+      for (const size of SIZE_CATEGORIES) checkNumber(errors, data.order.bySize, size, 'order.bySize');
+    }
+  }
+
+  return errors;
+}
+
+// "CUERO 1" → "Cuero 1": the Gemini app writes groups in capitals, the local app labels in title case
+const toLabel = (group: string) => group.trim().toLowerCase().replace(/(^|\s)\S/g, (c) => c.toUpperCase());
+
+/** Label mapping of parts read by the Gemini app: each code keeps the material group it was listed under. */
+export function sheetLabelMapping(parts: SheetPart[]): LabelMapping {
+  const mapping: LabelMapping = {};
+  for (const part of parts) {
+    if (part.code.trim() && part.material.trim() && !mapping[codeKey(part.code)]) mapping[codeKey(part.code)] = toLabel(part.material);
+  }
+  return mapping;
+}
+
+// Same reading as the Gemini app: a quantity field holding a dimension ("200x300") means one piece
+function sheetQuantity(quantity: string): number {
+  if (/\d+\s*[xX*]\s*\d+/.test(quantity)) return 1;
+  const match = quantity.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : 1;
+}
+
+const formatMillimetres = (value: number) => String(Number(value.toFixed(2)));
+
+/** Parts of the file in the local app's shape; dimensions are read from the notes of Gemini parts. */
+export function toRawParts(file: ProjectFile): RawPart[] {
+  if (file.app === 'local') return file.parts;
+  return file.parts.map((part) => {
+    const dimensions = parseDimensions(`${part.notes || ''} ${part.quantity || ''}`);
+    return {
+      id: crypto.randomUUID(),
+      material: part.code,
+      color: part.color,
+      description: part.name,
+      notes: part.notes ?? '',
+      width: dimensions?.ok ? dimensions.width : 0,
+      height: dimensions?.ok ? dimensions.height : 0,
+      quantity: sheetQuantity(part.quantity),
+      category: sizeOf(part.category) ?? undefined,
+      grade: part.grade,
+    };
+  });
+}
+
+/**
+ * Parts of the file in the Gemini app's shape. It reads dimensions from the notes, so they go first
+ * in the notes unless the notes already have one (parts that were read off a ficha).
+ */
+export function toSheetParts(file: ProjectFile): SheetPart[] {
+  if (file.app === 'gemini') return file.parts;
+  return file.parts.map((part) => {
+    const dimensions =
+      part.width > 0 && part.height > 0 && !parseDimensions(part.notes) ? `${formatMillimetres(part.width)} x ${formatMillimetres(part.height)} mm` : '';
+    return {
+      name: part.description,
+      code: part.material,
+      color: part.color,
+      material: (file.labelMapping[codeKey(part.material)] ?? '').toUpperCase(),
+      category: part.category ?? '',
+      quantity: String(part.quantity),
+      notes: [dimensions, part.notes].filter(Boolean).join(' · '),
+      grade: part.grade,
+    };
+  });
+}
@@ -0,0 +1,103 @@
+import { ProjectApp, SavedProject, StoredFile } from './types';
+
+const DB_NAME = 'despiece';
+const DB_VERSION = 1;
+const STORE = 'projects';
+const CURRENT_KEY = 'despiece.currentProject';
+
+// Wait after the last edit before writing, so typing a code doesn't write on every key
+export const AUTOSAVE_DELAY = 800;
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('app', 'app');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Projects of one app, most recently modified first. */
+export async function listProjects(app: ProjectApp): Promise<SavedProject[]> {
+  const projects = await run<SavedProject[]>('readonly', (store) => store.index('app').getAll(app));
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<SavedProject | undefined> {
+  return run<SavedProject | undefined>('readonly', (store) => store.get(id));
+}
+
+export async function saveProject(project: SavedProject): Promise<void> {
+  await run('readwrite', (store) => store.put(project));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await run('readwrite', (store) => store.delete(id));
+}
+
+export async function renameProject(id: string, reference: string): Promise<void> {
+  const project = await getProject(id);
+  if (!project) return;
+  await saveProject({ ...project, projectInfo: { ...project.projectInfo, reference }, updatedAt: Date.now() });
+}
+
+/** Saves a copy under a new id and returns it. */
+export async function duplicateProject(project: SavedProject, reference: string): Promise<SavedProject> {
+  const copy = { ...project, id: crypto.randomUUID(), projectInfo: { ...project.projectInfo, reference }, updatedAt: Date.now() };
+  await saveProject(copy);
+  return copy;
+}
+
+/** Search by reference or collection, ignoring case. */
+export function matchesSearch(project: SavedProject, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const { reference, collection } = project.projectInfo;
+  return `${reference} ${collection}`.toLowerCase().includes(needle);
+}
+
+export const toStoredFile = (file: File): StoredFile => ({ name: file.name, type: file.type, data: file });
+
+export const toFile = (stored: StoredFile): File => new File([stored.data], stored.name, { type: stored.type });
+
+/**
+ * Ids of the projects each app had open, so a page refresh reopens them. The Gemini app keeps
+ * one project per uploaded ficha open at a time; the local app only one.
+ */
+export function loadOpenProjectIds(app: ProjectApp): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CURRENT_KEY) ?? '{}')[app];
+    // Older values hold a single id
+    return Array.isArray(stored) ? stored : stored ? [stored] : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveOpenProjectIds(app: ProjectApp, ids: string[]): void {
+  let current: Record<string, string | string[] | null> = {};
+  try {
+    current = JSON.parse(localStorage.getItem(CURRENT_KEY) ?? '{}');
+  } catch {
+    // Start over from a corrupt value
+  }
+  localStorage.setItem(CURRENT_KEY, JSON.stringify({ ...current, [app]: ids }));
+}
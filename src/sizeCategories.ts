@@ -0,0 +1,32 @@
+export type SizeCategory = 'DC' | 'FC' | 'HC';
+
+export const SIZE_CATEGORIES: SizeCategory[] = ['DC', 'FC', 'HC'];
+
+export const SIZE_NAMES: Record<SizeCategory, string> = {
+  DC: 'Grande',
+  FC: 'Mediano',
+  HC: 'Pequeño',
+};
+
+// A row that only announces a size section: "DC", "TALLA FC", "HC (PEQUEÑO)", "GRANDE"...
+const SECTION_REGEX = /^(?:talla|tama[nñ]o|secci[oó]n)?\s*[:-]?\s*(DC|FC|HC)?\s*[-:(]?\s*(grande|mediano|peque[nñ]o)?\s*\)?\s*:?$/i;
+
+const SIZE_BY_NAME: Record<string, SizeCategory> = {
+  grande: 'DC',
+  mediano: 'FC',
+  pequeno: 'HC',
+  'pequeño': 'HC',
+};
+
+/** Returns the size announced by a section header row, or null if the row is something else. */
+export function detectSizeSection(rowText: string): SizeCategory | null {
+  const match = rowText.trim().match(SECTION_REGEX);
+  if (!match || (!match[1] && !match[2])) return null;
+  return (match[1]?.toUpperCase() as SizeCategory | undefined) ?? SIZE_BY_NAME[match[2].toLowerCase()];
+}
+
+/** Sort order DC > FC > HC > no size. Accepts free text such as "DC (GRANDE)". */
+export function getCategoryPriority(category: string = ''): number {
+  const index = SIZE_CATEGORIES.findIndex((size) => category.toUpperCase().includes(size));
+  return index === -1 ? SIZE_CATEGORIES.length + 1 : index + 1;
+}
@@ -0,0 +1,57 @@
+import { GradingRule, GradingSettings } from './types';
+import { SIZE_CATEGORIES, SizeCategory } from './sizeCategories';
+import { parseDimensions, replaceDimensions } from './dimensionParser';
+
+const STORAGE_KEY = 'despiece.gradingSettings';
+
+// Starting point for a DC ficha; every workshop adjusts its own steps
+export const DEFAULT_GRADING_SETTINGS: GradingSettings = {
+  baseSize: 'DC',
+  rules: [
+    { size: 'FC', mode: 'percent', width: -8, height: -8 },
+    { size: 'HC', mode: 'percent', width: -16, height: -16 },
+  ],
+};
+
+export function loadGradingSettings(): GradingSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : structuredClone(DEFAULT_GRADING_SETTINGS);
+  } catch {
+    return structuredClone(DEFAULT_GRADING_SETTINGS);
+  }
+}
+
+export function saveGradingSettings(settings: GradingSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Rules for every size but the base, keeping the ones already set. */
+export function rulesForBase(settings: GradingSettings, baseSize: SizeCategory): GradingRule[] {
+  return SIZE_CATEGORIES.filter((size) => size !== baseSize).map(
+    (size) => settings.rules.find((r) => r.size === size) ?? { size, mode: 'percent', width: 0, height: 0 },
+  );
+}
+
+/** Size named in a free-text category such as "DC (GRANDE)", or null. */
+export function sizeOf(category: string = ''): SizeCategory | null {
+  return SIZE_CATEGORIES.find((size) => category.toUpperCase().includes(size)) ?? null;
+}
+
+/** Width and height (mm) of the base piece graded to the rule's size. Never below 1 mm. */
+export function gradeDimensions(width: number, height: number, rule: GradingRule): { width: number; height: number } {
+  const grade = (value: number, change: number) =>
+    Math.max(1, rule.mode === 'percent' ? value * (1 + change / 100) : value + change);
+  return { width: grade(width, rule.width), height: grade(height, rule.height) };
+}
+
+/**
+ * Rewrites the dimension written in the text ("230 x 150", "23,5 x 15 cm") for the rule's size.
+ * Returns null when the text has no readable dimension, e.g. hardware counted in units.
+ */
+export function gradeText(text: string, rule: GradingRule): string | null {
+  const dimensions = parseDimensions(text);
+  if (!dimensions || !dimensions.ok) return null;
+  const graded = gradeDimensions(dimensions.width, dimensions.height, rule);
+  return replaceDimensions(text, graded.width, graded.height);
+}
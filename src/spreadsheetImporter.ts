@@ -0,0 +1,148 @@
+import * as XLSX from 'xlsx';
+import { ColumnKey, ConfidenceFlag, RawPart } from './types';
+import { COLUMN_KEYS, COLUMN_NAMES, DEFAULT_PROFILE, compilePattern, normalizeLabel } from './parsingProfiles';
+import { parseDimensions, parseLength } from './dimensionParser';
+import { detectSizeSection } from './sizeCategories';
+import { scoreConfidence } from './confidence';
+
+const STORAGE_KEY = 'despiece.spreadsheetMappings';
+
+export type SpreadsheetField = ColumnKey | 'category';
+
+export const SPREADSHEET_FIELDS: SpreadsheetField[] = [...COLUMN_KEYS, 'category'];
+
+export const SPREADSHEET_FIELD_NAMES: Record<SpreadsheetField, string> = {
+  ...COLUMN_NAMES,
+  category: 'Tamaño (DC/FC/HC)',
+};
+
+const CATEGORY_LABELS = ['tamano', 'tam', 'talla', 'size'];
+
+// Spreadsheet column index assigned to each part field
+export type ColumnMapping = Partial<Record<SpreadsheetField, number>>;
+
+export interface SpreadsheetData {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export function isSpreadsheetFile(file: File): boolean {
+  return /\.(xlsx|xls|csv)$/i.test(file.name);
+}
+
+/** Reads the first sheet. The first non-empty row is taken as the header. */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  // CSV is decoded as UTF-8 text first; SheetJS would read raw CSV bytes as Latin-1
+  const workbook = /\.csv$/i.test(file.name)
+    ? XLSX.read(await file.text(), { type: 'string' })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' })
+    .map((row) => row.map((cell) => String(cell ?? '').trim()))
+    .filter((row) => row.some(Boolean));
+
+  const [headers = [], ...rows] = table;
+  return { fileName: file.name, headers, rows };
+}
+
+// Files with the same header columns share a mapping
+function headerSignature(headers: string[]): string {
+  return headers.map(normalizeLabel).join('|');
+}
+
+function loadMappings(): Record<string, ColumnMapping> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function getSavedMapping(headers: string[]): ColumnMapping | null {
+  return loadMappings()[headerSignature(headers)] ?? null;
+}
+
+export function saveMapping(headers: string[], mapping: ColumnMapping): void {
+  const mappings = loadMappings();
+  mappings[headerSignature(headers)] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+}
+
+/** Maps columns whose header matches the standard labels (same ones used for PDF tables). */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  headers.forEach((header, index) => {
+    const label = normalizeLabel(header);
+    const field = CATEGORY_LABELS.includes(label)
+      ? 'category'
+      : COLUMN_KEYS.find((key) => DEFAULT_PROFILE.columnLabels[key].includes(label));
+    if (field && mapping[field] === undefined) mapping[field] = index;
+  });
+  return mapping;
+}
+
+/**
+ * Turns the data rows into parts, skipping totals/footers (same patterns as the default PDF profile)
+ * and rows that have neither a material nor dimensions.
+ */
+export function rowsToParts(data: SpreadsheetData, mapping: ColumnMapping): RawPart[] {
+  const parts: RawPart[] = [];
+  const skipRegexes = DEFAULT_PROFILE.skipRowPatterns.map((pattern) => compilePattern(pattern, '(?!)'));
+
+  for (const row of data.rows) {
+    if (skipRegexes.some((regex) => regex.test(row.filter(Boolean).join(' ')))) continue;
+
+    const cell = (field: SpreadsheetField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (row[index] ?? '').trim();
+    };
+
+    let material = cell('material');
+    let color = cell('color');
+    if (material.includes('/')) {
+      const [code, ...rest] = material.split('/');
+      material = code.trim();
+      color = color || rest.join('/').trim();
+    }
+
+    let width = parseLength(cell('width')) ?? 0;
+    let height = parseLength(cell('height')) ?? 0;
+    let invalidDimensions = (!!cell('width') && !width) || (!!cell('height') && !height);
+    const dimensions = parseDimensions(cell('dimensions'));
+    if (dimensions && !(width && height)) {
+      if (dimensions.ok) {
+        width = dimensions.width;
+        height = dimensions.height;
+        invalidDimensions = false;
+      } else {
+        invalidDimensions = true;
+      }
+    }
+
+    if (!material && !(width > 0 && height > 0) && !invalidDimensions) continue;
+
+    const parsedQuantity = parseFloat(cell('quantity').replace(',', '.'));
+    const flags: ConfidenceFlag[] = [];
+    if (invalidDimensions) flags.push('invalidDimensions');
+    else if (!(width > 0 && height > 0)) flags.push('noDimensions');
+    if (!(parsedQuantity > 0)) flags.push('defaultQuantity');
+    if (!material) flags.push('noMaterial');
+
+    parts.push({
+      id: crypto.randomUUID(),
+      material,
+      color,
+      description: cell('description'),
+      notes: cell('notes'),
+      width,
+      height,
+      quantity: parsedQuantity > 0 ? parsedQuantity : 1,
+      category: detectSizeSection(cell('category')) ?? undefined,
+      confidence: scoreConfidence(flags),
+      confidenceFlags: flags,
+    });
+  }
+
+  return parts;
+}
@@ -1,18 +1,240 @@
 
+import type { SizeCategory } from './sizeCategories';
+
+export interface ProjectInfo {
+  reference: string;
+  collection: string;
+  date: string;
+  totalMolds: string;
+}
+
+// Rectangle in PDF units, origin at the bottom-left of the page
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PartSource {
+  fileName: string;
+  page: number;
+  bbox: BoundingBox;
+  tokens: string[]; // raw text items the part was read from
+}
+
+// Closed pattern outline from a DXF, matched to the part by layer or block name
+export interface PartOutline {
+  name: string; // layer or block name in the DXF
+  fileName: string;
+  area: number; // mm² of one piece
+  perimeter: number; // mm of one piece
+  points: { x: number; y: number }[]; // in mm, arcs flattened
+}
+
+// Parser rules that lower the confidence of an extracted part
+export type ConfidenceFlag =
+  | 'noHeader'
+  | 'guessedDimensions'
+  | 'ambiguousQuantity'
+  | 'defaultQuantity'
+  | 'noDimensions'
+  | 'invalidDimensions'
+  | 'noMaterial'
+  | 'merged'
+  | 'ocr';
+
 export interface RawPart {
   id: string;
   material: string;
   color: string;
   description: string;
   notes: string;
-  width: number; // in mm
-  height: number; // in mm
+  width: number; // in mm, converted from the unit written on the ficha
+  height: number; // in mm, converted from the unit written on the ficha
   quantity: number;
+  category?: SizeCategory; // size section (DC/FC/HC) the part was listed under
+  mergedLines?: number; // number of PDF lines merged into this part when the description wrapped
+  source?: PartSource; // only for parts extracted from a file
+  confidence?: number; // 0-1, only for parts extracted from a file
+  confidenceFlags?: ConfidenceFlag[];
+  outline?: PartOutline; // real piece shape; without it the area is width × height
+  grade?: string; // material quality grade, selects the yield factor (e.g. "A", "B")
+}
+
+// A part as the Gemini app reads it off a ficha: free-text fields, dimensions inside the notes
+export interface SheetPart {
+  name: string;
+  code: string;
+  color: string;
+  material: string; // material group, e.g. "CUERO 1"
+  category: string; // DC, FC, HC
+  quantity: string;
+  notes?: string;
+  grade?: string; // quality grade, picks the yield factor
+  gradedFrom?: SizeCategory; // base size of a part derived by grading; unset for parts read off the ficha
+}
+
+export interface ExtractionResult {
+  projectInfo: ProjectInfo;
+  parts: RawPart[];
+  ocrPages: number[]; // pages without a text layer that were read by OCR
+}
+
+// A word or text run with its position, in PDF units (origin at the bottom-left of the page)
+export interface TextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface ProcessedPart extends RawPart {
-  leatherLabel?: string; // e.g., "Cuero 1", "Cuero 2"
+  leatherLabel?: string; // display group and number, e.g., "Cuero 1", "Cuero 2", "Forro 1"
+  family?: string; // material family of the rule that matched the code
   finalDescription: string;
-  area: number;
-  areaUnit: 'dm²' | 'ft²' | 'N/A';
+  area: number; // consumption in areaUnit (a length for 'm', a count for 'un'), rounded by the consumption settings
+  areaUnit: BillingUnit | 'N/A';
+  areaSource: 'outline' | 'rectangle';
+  grossArea: number; // area adjusted by the yield factor: what purchasing has to buy
+  yieldFactor: YieldFactor;
+  unitPrice?: number; // price per areaUnit from the price list, when the code/color has one
+  cost?: number; // unrounded gross consumption × price, so it does not follow the display rounding
+  perimeter?: number; // total cut length in mm (outline perimeter × quantity), only with an outline
+  consumption?: Consumption; // unrounded figures behind area/grossArea, for totals
+}
+
+export type ColumnKey = 'material' | 'color' | 'description' | 'notes' | 'width' | 'height' | 'dimensions' | 'quantity';
+
+export interface PageRange {
+  first: number;
+  last: number | null; // null = until the last page
+}
+
+export interface ParsingProfile {
+  id: string;
+  name: string;
+  keywords: string[]; // words in the PDF text that identify this template
+  columnLabels: Record<ColumnKey, string[]>; // header labels accepted for each column
+  rowTolerance: number; // max Y distance (PDF units) for items on the same row
+  materialPattern: string; // regex source for material codes
+  dimensionPattern: string; // regex source with groups w/h (units wu/hu), or plain groups 1 and 2
+  skipRowPatterns: string[]; // regex sources for headers, footers, totals...
+  pageRange: PageRange;
+}
+
+export type AreaUnit = 'mm²' | 'cm²' | 'dm²' | 'm²' | 'ft²' | 'in²';
+
+// Unit a material is bought and billed in: 'm' is linear metres, 'un' is units
+export type BillingUnit = AreaUnit | 'm' | 'un';
+
+// How consumptions are expressed on screen and in every export
+export interface ConsumptionSettings {
+  areaUnit: AreaUnit | null; // areas converted to this unit; null keeps the unit of each material rule
+  decimals: number;
+  rounding: 'nearest' | 'up' | 'down'; // 'up' when purchasing must never fall short
+}
+
+export interface MaterialRule {
+  id: string;
+  pattern: string; // regex source tested against the material code; the first matching rule wins
+  family: string; // e.g. "Caprino", "Vaqueta", "Sintético"
+  unit: BillingUnit;
+  group: string; // display group; parts are labelled "<group> <n>" per distinct code
+}
+
+// Usable fraction of the material for a family, optionally for one quality grade
+export interface YieldEntry {
+  id: string;
+  family: string; // material family of the rules ("Vaqueta", "Caprino"...)
+  grade: string; // '' = any grade of the family
+  usable: number; // 0-1, e.g. 0.78
+}
+
+export interface YieldSettings {
+  entries: YieldEntry[];
+  smallPieceArea: number; // mm²; pieces under this area get the extra
+  smallPieceExtra: number; // fraction added for small pieces, e.g. 0.05
+}
+
+// Yield applied to one part; gross = net × multiplier
+export interface YieldFactor {
+  usable: number;
+  smallPieceExtra: number;
+  multiplier: number;
+}
+
+// Consumption of one part in its rule's unit, before conversion and rounding
+export interface Consumption {
+  net: number;
+  gross: number; // net × factor.multiplier
+  unit: BillingUnit;
+  factor: YieldFactor;
+}
+
+export interface PriceEntry {
+  id: string;
+  code: string; // material code, compared case-insensitively
+  color: string; // '' = any color of the code
+  price: number; // per `unit`
+  unit: BillingUnit;
+}
+
+export interface PriceList {
+  currency: string; // ISO 4217 code, e.g. "COP", "USD"
+  entries: PriceEntry[];
+}
+
+// Stock a material family is cut from, for the nesting estimate
+export interface StockSpec {
+  family: string;
+  kind: 'roll' | 'hide';
+  width: number; // mm: roll width, or hide width across the back
+  length: number; // mm: length of one roll, or hide length
+  usableArea: number; // mm² of good leather in one hide (ignored for rolls)
+  allowRotation: boolean; // false when the grain direction must be kept
+  gap: number; // mm between pieces
+}
+
+// How many units of the reference are produced
+export interface OrderQuantity {
+  mode: 'total' | 'bySize';
+  total: number;
+  bySize: Record<SizeCategory, number>;
+}
+
+// How one size is derived from the base size, on each side of a piece
+export interface GradingRule {
+  size: SizeCategory;
+  mode: 'percent' | 'step';
+  width: number; // percent (-8 = 8% smaller) or mm added to the width
+  height: number;
+}
+
+export interface GradingSettings {
+  baseSize: SizeCategory;
+  rules: GradingRule[]; // one per derived size
+}
+
+// Label of each material code in a reference: lowercase code → "<group> <n>", e.g. "1vaq-cafe" → "Cuero 1"
+export type LabelMapping = Record<string, string>;
+
+// Which app a saved project belongs to: their parts have different shapes
+export type ProjectApp = 'local' | 'gemini';
+
+export interface StoredFile {
+  name: string;
+  type: string;
+  data: Blob;
+}
+
+// A reference saved in the browser (IndexedDB)
+export interface SavedProject<TPart = unknown> {
+  id: string;
+  app: ProjectApp;
+  projectInfo: ProjectInfo;
+  parts: TPart[];
+  sourceFiles: StoredFile[];
+  updatedAt: number; // ms since epoch
 }
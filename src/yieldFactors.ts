@@ -0,0 +1,59 @@
+import { YieldEntry, YieldFactor, YieldSettings } from './types';
+
+const STORAGE_KEY = 'despiece.yieldSettings';
+
+export const DEFAULT_YIELD_SETTINGS: YieldSettings = {
+  entries: [
+    { id: 'vaqueta', family: 'Vaqueta', grade: '', usable: 0.78 },
+    { id: 'caprino', family: 'Caprino', grade: '', usable: 0.85 },
+  ],
+  smallPieceArea: 10000, // 1 dm²
+  smallPieceExtra: 0,
+};
+
+export const NO_YIELD: YieldFactor = { usable: 1, smallPieceExtra: 0, multiplier: 1 };
+
+export function createYieldEntry(): YieldEntry {
+  return { id: crypto.randomUUID(), family: '', grade: '', usable: 1 };
+}
+
+export function loadYieldSettings(): YieldSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : structuredClone(DEFAULT_YIELD_SETTINGS);
+  } catch {
+    return structuredClone(DEFAULT_YIELD_SETTINGS);
+  }
+}
+
+export function saveYieldSettings(settings: YieldSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Grades defined in the settings, for the part selectors. */
+export function listGrades(settings: YieldSettings): string[] {
+  return [...new Set(settings.entries.map((e) => e.grade.trim()).filter(Boolean))].sort();
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Yield for a part: the entry for its family and grade, else the family's any-grade entry, else 100%.
+ * Pieces smaller than `smallPieceArea` (only known for area-billed materials) get the small-piece extra.
+ */
+export function resolveYield(settings: YieldSettings, family: string | undefined, grade: string | undefined, pieceArea?: number): YieldFactor {
+  const familyEntries = family ? settings.entries.filter((e) => sameText(e.family, family)) : [];
+  const entry =
+    (grade ? familyEntries.find((e) => e.grade.trim() && sameText(e.grade, grade)) : undefined) ??
+    familyEntries.find((e) => !e.grade.trim());
+
+  const usable = entry && entry.usable > 0 && entry.usable <= 1 ? entry.usable : 1;
+  const smallPieceExtra = pieceArea !== undefined && pieceArea > 0 && pieceArea < settings.smallPieceArea ? settings.smallPieceExtra : 0;
+  return { usable, smallPieceExtra, multiplier: (1 + smallPieceExtra) / usable };
+}
+
+/** Short label for a row, e.g. "78% +5%" (usable fraction, plus the small-piece extra if any). */
+export function describeYield(factor: YieldFactor): string {
+  const extra = factor.smallPieceExtra > 0 ? ` +${Math.round(factor.smallPieceExtra * 100)}%` : '';
+  return `${Math.round(factor.usable * 100)}%${extra}`;
+}